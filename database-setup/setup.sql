@@ -112,3 +112,342 @@ $$;
 CREATE TRIGGER on_auth_user_created_role
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user_role();
+
+-- # --- activity types migration --- #
+-- Store the activity type so non-run activities can be imported
+ALTER TABLE public.activities
+  ADD COLUMN activity_type TEXT NOT NULL DEFAULT 'Run';
+
+CREATE INDEX idx_activities_user_type ON public.activities(user_id, activity_type);
+
+-- # --- duplicate dismissals migration --- #
+-- Pairs of activities the user reviewed and chose to keep as separate activities
+CREATE TABLE public.duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL,
+  other_activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (activity_id, other_activity_id)
+);
+
+ALTER TABLE public.duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_duplicate_dismissals_user_id ON public.duplicate_dismissals(user_id);
+
+-- # --- import history migration --- #
+-- Each upload batch, so it can be reviewed and rolled back later
+CREATE TABLE public.imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source_type TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  inserted_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  deleted_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- What an import did to each activity, with the row as it was beforehand
+CREATE TABLE public.import_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID REFERENCES public.imports(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  strava_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  previous JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The import that last wrote each activity
+ALTER TABLE public.activities
+  ADD COLUMN import_id UUID REFERENCES public.imports(id) ON DELETE SET NULL;
+
+ALTER TABLE public.imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own imports"
+  ON public.imports FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own imports"
+  ON public.imports FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own imports"
+  ON public.imports FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own import changes"
+  ON public.import_changes FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own import changes"
+  ON public.import_changes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_imports_user_date ON public.imports(user_id, created_at);
+CREATE INDEX idx_import_changes_import_id ON public.import_changes(import_id);
+CREATE INDEX idx_activities_import_id ON public.activities(import_id);
+
+-- # --- activity timezone migration --- #
+-- UTC offset of the timezone each activity was recorded in, so weeks are
+-- bucketed by the local day it happened. NULL for rows imported before this.
+ALTER TABLE public.activities
+  ADD COLUMN utc_offset_minutes INTEGER;
+
+-- # --- user settings migration --- #
+-- Per-user display preferences, one row per user
+CREATE TABLE public.user_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  distance_unit TEXT NOT NULL DEFAULT 'km' CHECK (distance_unit IN ('km', 'mi')),
+  elevation_unit TEXT NOT NULL DEFAULT 'm' CHECK (elevation_unit IN ('m', 'ft')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+  ON public.user_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own settings"
+  ON public.user_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON public.user_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- # --- user settings preferences migration --- #
+-- Training and display preferences alongside the preferred units
+ALTER TABLE public.user_settings
+  ADD COLUMN week_start_day SMALLINT NOT NULL DEFAULT 1 CHECK (week_start_day BETWEEN 0 AND 6),
+  ADD COLUMN timezone TEXT,
+  ADD COLUMN default_preset TEXT NOT NULL DEFAULT '3m' CHECK (default_preset IN ('3m', '6m', 'ytd', '1y', 'all')),
+  ADD COLUMN max_heart_rate INTEGER CHECK (max_heart_rate BETWEEN 100 AND 250),
+  ADD COLUMN resting_heart_rate INTEGER CHECK (resting_heart_rate BETWEEN 20 AND 120),
+  ADD COLUMN display_name TEXT;
+
+-- Same access rules as activities: admins can see and manage every user's row
+DROP POLICY "Users can view their own settings" ON public.user_settings;
+DROP POLICY "Users can update their own settings" ON public.user_settings;
+
+CREATE POLICY "Users can view their own settings"
+  ON public.user_settings FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can update their own settings"
+  ON public.user_settings FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own settings"
+  ON public.user_settings FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- # --- activity edits migration --- #
+-- Activities corrected by hand: when they were last edited, and the values
+-- they had before the first edit
+ALTER TABLE public.activities
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN original_values JSONB;
+
+-- # --- activity_streams migration --- #
+-- Per-point recordings from track files (time, position, elevation, heart rate,
+-- cadence, distance), packed by the app as base64 gzip of delta-encoded JSON
+CREATE TABLE public.activity_streams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  point_count INTEGER NOT NULL CHECK (point_count >= 0),
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.activity_streams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own activity streams"
+  ON public.activity_streams FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own activity streams"
+  ON public.activity_streams FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own activity streams"
+  ON public.activity_streams FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own activity streams"
+  ON public.activity_streams FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- # --- activity_streams laps migration --- #
+-- Laps as the device recorded them (lap button or auto-lap), from TCX and FIT files
+ALTER TABLE public.activity_streams
+  ADD COLUMN laps JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- # --- personal_records migration --- #
+-- Each run's fastest effort over the standard distances, found in its stream.
+-- Personal records and their progression are the fastest of these over time.
+CREATE TABLE public.personal_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL,
+  distance_key TEXT NOT NULL CHECK (distance_key IN ('1k', '5k', '10k', 'half', 'marathon')),
+  elapsed_time INTEGER NOT NULL CHECK (elapsed_time > 0),
+  start_offset INTEGER NOT NULL DEFAULT 0,
+  achieved_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (activity_id, distance_key)
+);
+
+ALTER TABLE public.personal_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own personal records"
+  ON public.personal_records FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own personal records"
+  ON public.personal_records FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own personal records"
+  ON public.personal_records FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own personal records"
+  ON public.personal_records FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_personal_records_user_distance ON public.personal_records(user_id, distance_key, achieved_at);
+
+-- # --- race_results migration --- #
+-- Race results entered by hand, for races without a recorded track. The race
+-- predictor can use them alongside the best efforts found in streams.
+CREATE TABLE public.race_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  race_date DATE NOT NULL,
+  distance_meters NUMERIC NOT NULL CHECK (distance_meters > 0),
+  elapsed_time INTEGER NOT NULL CHECK (elapsed_time > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.race_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own race results"
+  ON public.race_results FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own race results"
+  ON public.race_results FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own race results"
+  ON public.race_results FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own race results"
+  ON public.race_results FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_race_results_user_date ON public.race_results(user_id, race_date);
+
+-- # --- imports failed_at migration --- #
+-- Set when an import stopped part way through writing its changes. The
+-- changes it did write stay recorded, so it can still be rolled back.
+ALTER TABLE public.imports
+  ADD COLUMN failed_at TIMESTAMP WITH TIME ZONE;
+
+-- # --- duplicate_dismissals ownership migration --- #
+-- Both activities in a dismissed pair must belong to the user dismissing it
+DROP POLICY "Users can insert their own duplicate dismissals" ON public.duplicate_dismissals;
+
+CREATE POLICY "Users can insert their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = other_activity_id AND a.user_id = auth.uid())
+  );
+
+-- # --- activity_streams ownership migration --- #
+-- A stream can only be saved for one of the caller's own activities, so
+-- nobody else can take the activity's slot
+DROP POLICY "Users can insert their own activity streams" ON public.activity_streams;
+
+CREATE POLICY "Users can insert their own activity streams"
+  ON public.activity_streams FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+  );
+
+-- # --- personal_records ownership migration --- #
+-- Records can only be saved for one of the caller's own activities
+DROP POLICY "Users can insert their own personal records" ON public.personal_records;
+
+CREATE POLICY "Users can insert their own personal records"
+  ON public.personal_records FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+  );
+
+-- # --- activities cadence and power migration --- #
+-- Cadence and power summaries from GPX, TCX and FIT files. CSV imports
+-- have neither, so both stay null for them.
+ALTER TABLE public.activities
+  ADD COLUMN avg_cadence INTEGER,
+  ADD COLUMN max_cadence INTEGER,
+  ADD COLUMN avg_power INTEGER;
+
+-- # --- activity_streams update ownership migration --- #
+-- A stream can't be moved onto someone else's activity either, where it
+-- would take that activity's slot
+DROP POLICY "Users can update their own activity streams" ON public.activity_streams;
+
+CREATE POLICY "Users can update their own activity streams"
+  ON public.activity_streams FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (
+    (
+      auth.uid() = user_id
+      AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    )
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- # --- personal_records update ownership migration --- #
+-- Nor can a record be moved onto someone else's activity
+DROP POLICY "Users can update their own personal records" ON public.personal_records;
+
+CREATE POLICY "Users can update their own personal records"
+  ON public.personal_records FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (
+    (
+      auth.uid() = user_id
+      AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    )
+    OR public.has_role(auth.uid(), 'admin')
+  );
@@ -0,0 +1,190 @@
+import { UseFormReturn } from "react-hook-form";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUnits } from "@/hooks/useUnits";
+import { ActivityFormValues } from "@/lib/activityForm";
+import { ACTIVITY_TYPES } from "@/lib/parseActivities";
+import { cn } from "@/lib/utils";
+
+interface ActivityFormFieldsProps {
+  form: UseFormReturn<ActivityFormValues>;
+  // Asks for moving and elapsed time separately instead of one duration
+  showElapsed?: boolean;
+}
+
+export function ActivityFormFields({ form, showElapsed = false }: ActivityFormFieldsProps) {
+  const { distanceUnit, elevationUnit } = useUnits();
+  // Keep types that aren't in the list, e.g. "Workout" from a Strava export
+  const type = form.watch("type");
+  const types = (ACTIVITY_TYPES as readonly string[]).includes(type) ? ACTIVITY_TYPES : [...ACTIVITY_TYPES, type];
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="date"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="time"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Start time</FormLabel>
+              <FormControl>
+                <Input type="time" step="1" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem className="col-span-2">
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Treadmill run" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Type</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {types.map((type) => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className={cn("grid gap-4", showElapsed ? "grid-cols-2 sm:grid-cols-4" : "grid-cols-3")}>
+        <FormField
+          control={form.control}
+          name="distance"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Distance ({distanceUnit})</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" min="0" placeholder="10" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="duration"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{showElapsed ? "Moving time" : "Duration"}</FormLabel>
+              <FormControl>
+                <Input placeholder="50:00" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {showElapsed && (
+          <FormField
+            control={form.control}
+            name="elapsed"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Elapsed time</FormLabel>
+                <FormControl>
+                  <Input placeholder="55:00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <FormField
+          control={form.control}
+          name="elevation"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Elevation ({elevationUnit})</FormLabel>
+              <FormControl>
+                <Input type="number" min="0" placeholder="Optional" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="avgHeartRate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Avg HR (bpm)</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="Optional" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="maxHeartRate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Max HR (bpm)</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="Optional" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+import { useMemo, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, TooltipProps } from "recharts";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useUnits } from "@/hooks/useUnits";
+import { formatDurationInput } from "@/lib/activityForm";
+import { computeSplits, Split } from "@/lib/splits";
+import { ActivityLap, ActivityStream } from "@/lib/streams";
+import { metersPerUnit } from "@/lib/units";
+
+interface ActivitySplitsProps {
+  stream: ActivityStream;
+  laps: ActivityLap[];
+}
+
+export function ActivitySplits({ stream, laps }: ActivitySplitsProps) {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const { distanceUnit, formatDistance, formatElevation, formatPace, paceSeconds } = useUnits();
+
+  const splits = useMemo(
+    () => computeSplits(stream, metersPerUnit(distanceUnit)),
+    [stream, distanceUnit]
+  );
+
+  // Bar height is the pace in the user's unit
+  const chartData = splits.map(split => ({
+    ...split,
+    label: split.distance < metersPerUnit(distanceUnit) * 0.99
+      ? (split.number - 1 + split.distance / metersPerUnit(distanceUnit)).toFixed(1)
+      : String(split.number),
+    pace: paceSeconds(split.time, split.distance / 1000) ?? 0,
+  }));
+  const paces = chartData.map(d => d.pace).filter(p => p > 0);
+  const minPace = paces.length > 0 ? Math.min(...paces) : 0;
+  const maxPace = paces.length > 0 ? Math.max(...paces) : 0;
+
+  const formatChange = (meters: number | null) =>
+    meters === null ? "-" : `${meters > 0 ? "+" : ""}${formatElevation(meters)}`;
+
+  const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload as Split;
+      return (
+        <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium text-foreground mb-1">
+            {distanceUnit === "mi" ? "Mile" : "Km"} {data.number}
+          </p>
+          <p className="text-lg font-display font-bold text-primary">
+            {formatPace(data.time, data.distance / 1000)}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {formatChange(data.elevationChange)}
+            {data.avgHeartRate !== null && ` · ${data.avgHeartRate} bpm`}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const splitsView = splits.length === 0 ? (
+    <p className="text-sm text-muted-foreground">This track has no distance to split.</p>
+  ) : (
+    <div className="space-y-4">
+      <div className="h-[240px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart
+            data={chartData}
+            margin={{ top: 10, right: 20, left: 0, bottom: 0 }}
+            onMouseLeave={() => setHoveredIndex(null)}
+          >
+            <XAxis
+              dataKey="label"
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              tickLine={false}
+              axisLine={{ stroke: 'hsl(var(--border))' }}
+            />
+            <YAxis
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              // Start just under the fastest split so the differences show
+              domain={[Math.max(0, Math.floor((minPace - 30) / 30) * 30), 'auto']}
+              tickFormatter={(value) => formatDurationInput(value)}
+              width={60}
+            />
+            <Tooltip
+              content={<CustomTooltip />}
+              cursor={{ fill: 'hsl(var(--muted) / 0.3)' }}
+            />
+            <Bar
+              dataKey="pace"
+              radius={[4, 4, 0, 0]}
+              onMouseEnter={(_, index) => setHoveredIndex(index)}
+            >
+              {chartData.map((entry, index) => (
+                <Cell
+                  key={entry.number}
+                  fill={hoveredIndex === index
+                    ? 'hsl(var(--strava-coral-glow))'
+                    : `hsl(var(--primary) / ${0.4 + (maxPace > 0 ? entry.pace / maxPace : 0) * 0.6})`
+                  }
+                  style={{ transition: 'fill 0.2s ease' }}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{distanceUnit === "mi" ? "Mile" : "Km"}</TableHead>
+              <TableHead className="text-right">Time</TableHead>
+              <TableHead className="text-right">Pace</TableHead>
+              <TableHead className="text-right">Elevation</TableHead>
+              <TableHead className="text-right">Avg HR</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {chartData.map(split => (
+              <TableRow key={split.number}>
+                <TableCell className="font-medium">{split.label}</TableCell>
+                <TableCell className="text-right">{formatDurationInput(Math.round(split.time))}</TableCell>
+                <TableCell className="text-right">{formatPace(split.time, split.distance / 1000)}</TableCell>
+                <TableCell className="text-right">{formatChange(split.elevationChange)}</TableCell>
+                <TableCell className="text-right">{split.avgHeartRate ?? "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+
+  // A single lap is just the whole activity again
+  if (laps.length < 2) return splitsView;
+
+  return (
+    <Tabs defaultValue="splits">
+      <TabsList className="mb-4">
+        <TabsTrigger value="splits">Splits</TabsTrigger>
+        <TabsTrigger value="laps">Laps ({laps.length})</TabsTrigger>
+      </TabsList>
+      <TabsContent value="splits">{splitsView}</TabsContent>
+      <TabsContent value="laps">
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lap</TableHead>
+                <TableHead className="text-right">Distance</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+                <TableHead className="text-right">Pace</TableHead>
+                <TableHead className="text-right">Elevation</TableHead>
+                <TableHead className="text-right">Avg HR</TableHead>
+                <TableHead className="text-right">Max HR</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {laps.map((lap, index) => (
+                <TableRow key={index}>
+                  <TableCell className="font-medium">{index + 1}</TableCell>
+                  <TableCell className="text-right">{formatDistance(lap.distance / 1000, 2)}</TableCell>
+                  <TableCell className="text-right">{formatDurationInput(lap.movingTime)}</TableCell>
+                  <TableCell className="text-right">{formatPace(lap.movingTime, lap.distance / 1000)}</TableCell>
+                  <TableCell className="text-right">{formatChange(lap.elevationChange)}</TableCell>
+                  <TableCell className="text-right">{lap.avgHeartRate ?? "-"}</TableCell>
+                  <TableCell className="text-right">{lap.maxHeartRate ?? "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
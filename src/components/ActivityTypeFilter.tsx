@@ -0,0 +1,67 @@
+import { Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ActivityTypeFilterProps {
+  availableTypes: string[];
+  selectedTypes: string[];
+  onChange: (types: string[]) => void;
+  className?: string;
+}
+
+export function ActivityTypeFilter({
+  availableTypes,
+  selectedTypes,
+  onChange,
+  className,
+}: ActivityTypeFilterProps) {
+  const label =
+    selectedTypes.length === 0
+      ? "All types"
+      : selectedTypes.length === 1
+        ? selectedTypes[0]
+        : `${selectedTypes.length} types`;
+
+  const toggleType = (type: string, checked: boolean) => {
+    onChange(checked ? [...selectedTypes, type] : selectedTypes.filter((t) => t !== type));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className ?? "gap-2"}>
+          <Filter className="h-4 w-4" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        <DropdownMenuLabel>Activity types</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={selectedTypes.length === 0}
+          onCheckedChange={() => onChange([])}
+          onSelect={(e) => e.preventDefault()}
+        >
+          All types
+        </DropdownMenuCheckboxItem>
+        {availableTypes.map((type) => (
+          <DropdownMenuCheckboxItem
+            key={type}
+            checked={selectedTypes.includes(type)}
+            onCheckedChange={(checked) => toggleType(type, checked)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {type}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,91 @@
+import { ReactNode, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/hooks/useSettings";
+import { useToast } from "@/hooks/use-toast";
+import { Activity } from "@/lib/parseActivities";
+import { activityFormSchema, ActivityFormValues, emptyActivityForm, fromActivityForm } from "@/lib/activityForm";
+import { saveManualActivity } from "@/lib/manualActivities";
+import { Loader2 } from "lucide-react";
+import { ActivityFormFields } from "./ActivityFormFields";
+
+interface AddActivityDialogProps {
+  children: ReactNode;
+  onAdded: (activity: Activity) => void;
+}
+
+export function AddActivityDialog({ children, onAdded }: AddActivityDialogProps) {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const form = useForm<ActivityFormValues>({
+    resolver: zodResolver(activityFormSchema),
+    defaultValues: emptyActivityForm(),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (form.formState.isSubmitting) return;
+    if (next) form.reset(emptyActivityForm());
+    setOpen(next);
+  };
+
+  const onSubmit = async (values: ActivityFormValues) => {
+    if (!user) return;
+
+    try {
+      const activity = await saveManualActivity(user.id, fromActivityForm(values, settings), settings.timezone);
+      toast({ title: "Activity added", description: activity.name });
+      onAdded(activity);
+      setOpen(false);
+    } catch (err) {
+      console.error("Error adding activity:", err);
+      toast({ title: "Error", description: "Failed to add activity", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Add Activity</DialogTitle>
+          <DialogDescription>
+            Log a run recorded without a watch, such as on a treadmill.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <ActivityFormFields form={form} />
+            <p className="text-sm text-muted-foreground">
+              Times are in {settings.timezone ?? "this browser's timezone"}.
+            </p>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting} className="gap-2">
+                {form.formState.isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Add activity
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,178 +1,254 @@
-import { useEffect, useState, useMemo, useRef } from "react";
+import { useCallback, useEffect, useState, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { subMonths, startOfYear } from "date-fns";
-import { parseCSV, groupByWeek, calculateStats, Activity, WeekData } from "@/lib/parseActivities";
-import { parseGPX } from "@/lib/parseGPX";
+import { groupByWeek, calculateStats, filterByTypes, getActivityTypes, getLocalDate, isRunType, Activity, CSVResult, ParseProgress, WeekData } from "@/lib/parseActivities";
+import { fromActivityRow, toActivityRow } from "@/lib/activityRows";
+import { ArchiveParseResult, ArchiveResult } from "@/lib/parseStravaArchive";
+import { parseActivitiesFile } from "@/lib/parseInWorker";
+import { DATE_FORMAT_LABELS } from "@/lib/parseDates";
+import { applyImportPreview, buildImportPreview, ImportPreview } from "@/lib/importActivities";
+import { describeImport, ImportBatch } from "@/lib/importHistory";
+import { duplicatePairKey, findPossibleDuplicates } from "@/lib/findDuplicates";
+import { getPresetDates, PresetKey } from "@/lib/datePresets";
+import { BestEffortRecord } from "@/lib/bestEfforts";
+import { loadBestEfforts } from "@/lib/personalRecords";
 import { useAuth } from "@/contexts/AuthContext";
 import { useIsAdmin } from "@/hooks/useIsAdmin";
+import { useSettings } from "@/hooks/useSettings";
+import { useUnits } from "@/hooks/useUnits";
 import { supabase } from "@/integrations/supabase/client";
 import { StatCard } from "./StatCard";
 import { WeeklyChart } from "./WeeklyChart";
 import { MonthlyChart } from "./MonthlyChart";
 import { RecentWeeks } from "./RecentWeeks";
+import { PersonalRecords } from "./PersonalRecords";
+import { RacePredictor } from "./RacePredictor";
 import { DateRangeFilter } from "./DateRangeFilter";
-import { MapPin, Calendar, Trophy, Zap, Flame, Upload, LogOut, Plus, List, Shield } from "lucide-react";
+import { ActivityTypeFilter } from "./ActivityTypeFilter";
+import { UploadActivitiesDialog } from "./UploadActivitiesDialog";
+import { AddActivityDialog } from "./AddActivityDialog";
+import { ImportPreviewDialog } from "./ImportPreviewDialog";
+import { ParseProgressBar } from "./ParseProgressBar";
+import { UnitsMenu } from "./UnitsMenu";
+import { MapPin, Calendar, Trophy, Zap, Flame, Upload, LogOut, Plus, List, History, Shield, Settings, PenLine } from "lucide-react";
 import { Button } from "./ui/button";
+import { ToastAction } from "./ui/toast";
 import { useToast } from "@/hooks/use-toast";
 
-type PresetKey = "3m" | "6m" | "ytd" | "1y" | "all";
-
-function getPresetDates(preset: PresetKey): { start: Date | undefined; end: Date | undefined } {
-  const now = new Date();
-  switch (preset) {
-    case "3m":
-      return { start: subMonths(now, 3), end: now };
-    case "6m":
-      return { start: subMonths(now, 6), end: now };
-    case "ytd":
-      return { start: startOfYear(now), end: now };
-    case "1y":
-      return { start: subMonths(now, 12), end: now };
-    case "all":
-      return { start: undefined, end: undefined };
-  }
-}
-
 export function Dashboard() {
   const { user, signOut } = useAuth();
   const { isAdmin } = useIsAdmin();
+  const { settings, loading: settingsLoading } = useSettings();
+  const { formatDistance } = useUnits();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [allActivities, setAllActivities] = useState<Activity[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activePreset, setActivePreset] = useState<PresetKey>("3m");
-  const [startDate, setStartDate] = useState<Date | undefined>(() => getPresetDates("3m").start);
-  const [endDate, setEndDate] = useState<Date | undefined>(() => getPresetDates("3m").end);
+  const [bestEfforts, setBestEfforts] = useState<BestEffortRecord[]>([]);
+  const [activePreset, setActivePreset] = useState<PresetKey>(settings.defaultPreset);
+  const [startDate, setStartDate] = useState<Date | undefined>(() => getPresetDates(settings.defaultPreset).start);
+  const [endDate, setEndDate] = useState<Date | undefined>(() => getPresetDates(settings.defaultPreset).end);
+  const defaultPresetApplied = useRef(!settingsLoading);
+  const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
+  // Set once the user picks types, after which the default is left alone
+  const typesChosen = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const gpxFileInputRef = useRef<HTMLInputElement>(null);
+
+  const [pendingImport, setPendingImport] = useState<{
+    preview: ImportPreview;
+    batch: ImportBatch;
+    details: string[];
+  } | null>(null);
+  const [savingImport, setSavingImport] = useState(false);
+  const [parsing, setParsing] = useState<{
+    label: string;
+    progress: ParseProgress | null;
+    onCancel?: () => void;
+  } | null>(null);
+
+  const loadActivities = useCallback(async (): Promise<Activity[]> => {
+    if (!user) return [];
+    
+    const { data, error } = await supabase
+      .from("activities")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("activity_date", { ascending: true });
+    
+    if (error) {
+      console.error("Error loading activities:", error);
+      toast({ title: "Error loading activities", variant: "destructive" });
+      setLoading(false);
+      return [];
+    }
+    const loaded = (data ?? []).map(fromActivityRow);
+    setAllActivities(loaded);
+    setLoading(false);
+    return loaded;
+  }, [user, toast]);
+
+  // Flags newly imported activities that look like another copy of an existing
+  // one, leaving out pairs the user already chose to keep
+  const checkForDuplicates = async (activities: Activity[], importedIds: Set<string>) => {
+    if (!user) return;
+    const { data: dismissals, error } = await supabase
+      .from("duplicate_dismissals")
+      .select("activity_id, other_activity_id")
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error loading duplicate dismissals:", error);
+      return;
+    }
+    const dismissed = new Set((dismissals ?? []).map(d => duplicatePairKey(d.activity_id, d.other_activity_id)));
+    const count = findPossibleDuplicates(activities)
+      .filter(([a, b]) => importedIds.has(a.id) || importedIds.has(b.id))
+      .filter(([a, b]) => !a.rowId || !b.rowId || !dismissed.has(duplicatePairKey(a.rowId, b.rowId)))
+      .length;
+    if (count === 0) return;
+
+    toast({
+      title: `${count} possible ${count === 1 ? "duplicate" : "duplicates"} found`,
+      description: "Some imported activities overlap with ones you already have.",
+      action: (
+        <ToastAction altText="Review duplicates" onClick={() => navigate("/duplicates")}>
+          Review
+        </ToastAction>
+      ),
+    });
+  };
+
+  // Settings may arrive after the first render; start from the saved preset once they do
+  useEffect(() => {
+    if (settingsLoading || defaultPresetApplied.current) return;
+    defaultPresetApplied.current = true;
+    const { start, end } = getPresetDates(settings.defaultPreset);
+    setActivePreset(settings.defaultPreset);
+    setStartDate(start);
+    setEndDate(end);
+  }, [settingsLoading, settings.defaultPreset]);
 
   // Load activities from Supabase on mount
   useEffect(() => {
-    const loadActivities = async () => {
-      if (!user) return;
-      
-      const { data, error } = await supabase
-        .from("activities")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("activity_date", { ascending: true });
-      
-      if (error) {
-        console.error("Error loading activities:", error);
-        toast({ title: "Error loading activities", variant: "destructive" });
-      } else if (data && data.length > 0) {
-        const activities: Activity[] = data.map(row => ({
-          id: row.strava_id,
-          date: new Date(row.activity_date),
-          name: row.name,
-          type: "Run",
-          distanceKm: Number(row.distance_km),
-          elapsedTime: row.elapsed_time,
-          movingTime: row.moving_time,
-          elevationGain: row.elevation_gain ? Number(row.elevation_gain) : 0,
-          avgHeartRate: row.avg_heart_rate ?? null,
-          maxHeartRate: row.max_heart_rate ?? null,
-        }));
-        setAllActivities(activities);
-      }
-      setLoading(false);
-    };
-    
     loadActivities();
-  }, [user, toast]);
+  }, [loadActivities]);
+
+  // Imports can set new records, so reload them whenever the activities change
+  useEffect(() => {
+    if (!user || allActivities.length === 0) return;
+    loadBestEfforts(user.id)
+      .then(setBestEfforts)
+      .catch(err => console.error("Error loading personal records:", err));
+  }, [user, allActivities]);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset input so same file can be re-uploaded
+    event.target.value = '';
     if (!file || !user) return;
     
-    setLoading(true);
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const csvText = e.target?.result as string;
-      const parsedActivities = parseCSV(csvText);
-      
-      // Save to Supabase
-      const rows = parsedActivities.map(a => ({
-        user_id: user.id,
-        strava_id: `${a.date.toISOString()}-${a.name}`,
-        activity_date: a.date.toISOString(),
-        name: a.name,
-        distance_km: a.distanceKm,
-        elapsed_time: a.elapsedTime,
-        moving_time: a.movingTime,
-        elevation_gain: a.elevationGain ?? null,
-        avg_heart_rate: a.avgHeartRate ?? null,
-        max_heart_rate: a.maxHeartRate ?? null,
-      }));
-      
-      const { error } = await supabase
-        .from("activities")
-        .upsert(rows, { onConflict: "user_id,strava_id" });
-      
-      if (error) {
-        console.error("Error saving activities:", error);
-        toast({ title: "Error saving activities", variant: "destructive" });
-      } else {
-        toast({ title: `Saved ${parsedActivities.length} activities` });
+    const controller = new AbortController();
+    setParsing({ label: `Reading ${file.name}...`, progress: null, onCancel: () => controller.abort() });
+
+    let result: CSVResult | ArchiveResult;
+    try {
+      result = await parseActivitiesFile(file, {
+        signal: controller.signal,
+        onProgress: progress => setParsing(prev => prev && { ...prev, progress }),
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Error parsing file:", err);
+        toast({ title: "Could not read file", variant: "destructive" });
       }
-      
-      setAllActivities(parsedActivities);
-      setLoading(false);
-    };
-    reader.readAsText(file);
-  };
+      setParsing(null);
+      return;
+    }
 
-  const handleGPXUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file || !user) return;
+    if (result.error) {
+      toast({ title: result.error, variant: "destructive" });
+      setParsing(null);
+      return;
+    }
 
-    setLoading(true);
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const gpxText = e.target?.result as string;
-      const result = parseGPX(gpxText, file.name);
+    const missingColumns = result.report.missing;
+    const details: string[] = [];
+    if (missingColumns.length > 0) {
+      details.push(`Columns not found: ${missingColumns.join(", ")}`);
+    }
+    // Numeric dates could be read either way round, so say which was used
+    if (result.dateFormat === "day-month-year" || result.dateFormat === "month-day-year") {
+      details.push(`Dates read as ${DATE_FORMAT_LABELS[result.dateFormat]}`);
+    }
+    const tracks = (result as Partial<ArchiveParseResult>).tracks;
+    if (tracks) {
+      const { enriched, missing, failed } = tracks;
+      details.push(`${enriched} enriched from track files`);
+      if (missing.length > 0) details.push(`${missing.length} track files missing`);
+      if (failed.length > 0) details.push(`${failed.length} track files unreadable`);
+    }
+    
+    const rows = result.activities.map(a => toActivityRow(a, user.id, settings.timezone));
+    
+    // Nothing is written until the user confirms the preview
+    setParsing({ label: "Comparing with saved activities...", progress: { rows: rows.length, fraction: 1 } });
+    try {
+      const streams = (result as Partial<ArchiveParseResult>).streams;
+      const preview = await buildImportPreview(user.id, rows, result.skipped, streams);
+      setPendingImport({ preview, batch: describeImport([file.name]), details });
+    } catch (err) {
+      console.error("Error preparing import:", err);
+      toast({ title: "Error preparing import", variant: "destructive" });
+    }
+    setParsing(null);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImport || !user) return;
+    const { preview, batch, details } = pendingImport;
 
-      if (result.error) {
-        toast({ title: result.error, variant: "destructive" });
-        setLoading(false);
+    setSavingImport(true);
+    try {
+      const { saved, incomplete, tracksSaved } = await applyImportPreview(user.id, preview, batch);
+      if (incomplete) {
+        // Some changes are saved, so confirming again would import them twice
+        toast({
+          title: "Import stopped part way",
+          description: "Some changes were saved. Review or roll back the import from Imports.",
+          variant: "destructive",
+          action: (
+            <ToastAction altText="Open imports" onClick={() => navigate("/imports")}>
+              Imports
+            </ToastAction>
+          ),
+        });
+        setPendingImport(null);
+        await loadActivities();
         return;
       }
+      const summary = preview.rekeys.length > 0
+        ? [...details, `${preview.rekeys.length} re-keyed to Strava IDs`]
+        : [...details];
+      if (!tracksSaved) summary.push("Recorded tracks could not be saved");
+      toast({
+        title: `Saved ${saved} activities`,
+        description: summary.length > 0 ? summary.join(" · ") : undefined,
+      });
+      setPendingImport(null);
+      const loaded = await loadActivities();
+      await checkForDuplicates(loaded, new Set([...preview.newRows, ...preview.overwrites.map(o => o.row)].map(r => r.strava_id)));
+    } catch (err) {
+      console.error("Error saving activities:", err);
+      toast({ title: "Error saving activities", variant: "destructive" });
+    } finally {
+      setSavingImport(false);
+    }
+  };
 
-      const activity = result.activity;
-
-      // Save to Supabase
-      const row = {
-        user_id: user.id,
-        strava_id: activity.id,
-        activity_date: activity.date.toISOString(),
-        name: activity.name,
-        distance_km: activity.distanceKm,
-        elapsed_time: activity.elapsedTime,
-        moving_time: activity.movingTime,
-        elevation_gain: activity.elevationGain ?? null,
-        avg_heart_rate: activity.avgHeartRate ?? null,
-        max_heart_rate: activity.maxHeartRate ?? null,
-      };
-
-      const { error } = await supabase
-        .from("activities")
-        .upsert([row], { onConflict: "user_id,strava_id" });
-
-      if (error) {
-        console.error("Error saving activity:", error);
-        toast({ title: "Error saving activity", variant: "destructive" });
-      } else {
-        toast({ title: `Added: ${activity.name}` });
-        // Add to activities and re-sort
-        setAllActivities(prev => 
-          [...prev, activity].sort((a, b) => a.date.getTime() - b.date.getTime())
-        );
-      }
-      setLoading(false);
-    };
-    reader.readAsText(file);
-    // Reset input so same file can be re-uploaded
-    event.target.value = '';
+  const handleActivitiesImported = async (imported: Activity[]) => {
+    if (imported.length === 0) return;
+    // Reload rather than merge so new activities carry their saved row ids
+    const loaded = await loadActivities();
+    await checkForDuplicates(loaded, new Set(imported.map(a => a.id)));
   };
 
   const handlePresetChange = (preset: PresetKey) => {
@@ -192,19 +268,34 @@ export function Dashboard() {
     setActivePreset(null as any);
   };
 
+  const availableTypes = useMemo(() => getActivityTypes(allActivities.map(a => a.type)), [allActivities]);
+
+  // Mileage means running, so rides and swims stay out of the totals until
+  // the user picks them, including ones imported later
+  useEffect(() => {
+    if (typesChosen.current) return;
+    const runTypes = availableTypes.filter(isRunType);
+    setSelectedTypes(runTypes.length > 0 && runTypes.length < availableTypes.length ? runTypes : []);
+  }, [availableTypes]);
+
+  const handleTypesChange = (types: string[]) => {
+    typesChosen.current = true;
+    setSelectedTypes(types);
+  };
+
   const { filteredActivities, weeks, stats, minDate, maxDate } = useMemo(() => {
-    let filtered = allActivities;
+    let filtered = filterByTypes(allActivities, selectedTypes);
     
     if (startDate) {
-      filtered = filtered.filter(a => a.date >= startDate);
+      filtered = filtered.filter(a => getLocalDate(a) >= startDate);
     }
     if (endDate) {
       const endOfDay = new Date(endDate);
       endOfDay.setHours(23, 59, 59, 999);
-      filtered = filtered.filter(a => a.date <= endOfDay);
+      filtered = filtered.filter(a => getLocalDate(a) <= endOfDay);
     }
     
-    const groupedWeeks = groupByWeek(filtered);
+    const groupedWeeks = groupByWeek(filtered, settings.weekStartDay);
     const calculatedStats = calculateStats(filtered, groupedWeeks);
     
     const min = allActivities.length > 0 ? allActivities[0].date : undefined;
@@ -217,7 +308,7 @@ export function Dashboard() {
       minDate: min,
       maxDate: max,
     };
-  }, [allActivities, startDate, endDate]);
+  }, [allActivities, selectedTypes, startDate, endDate, settings.weekStartDay]);
 
   const handleClearFilter = () => {
     setActivePreset("all");
@@ -225,6 +316,26 @@ export function Dashboard() {
     setEndDate(undefined);
   };
 
+  const importPreviewDialog = (
+    <ImportPreviewDialog
+      preview={pendingImport?.preview ?? null}
+      saving={savingImport}
+      onConfirm={handleConfirmImport}
+      onCancel={() => setPendingImport(null)}
+    />
+  );
+
+  const parseProgressPanel = parsing && (
+    <div className="fixed bottom-4 right-4 z-50 w-[calc(100%-2rem)] max-w-sm rounded-lg border bg-card p-4 shadow-card">
+      <ParseProgressBar
+        label={parsing.label}
+        progress={parsing.progress}
+        unit="rows"
+        onCancel={parsing.onCancel}
+      />
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -239,7 +350,11 @@ export function Dashboard() {
     return (
       <div className="min-h-screen bg-background bg-gradient-glow flex flex-col">
         <header className="p-4 flex justify-end items-center gap-3">
-          <span className="text-sm text-muted-foreground">{user?.email}</span>
+          <span className="text-sm text-muted-foreground">{settings.displayName || user?.email}</span>
+          <Button variant="ghost" size="sm" onClick={() => navigate("/settings")} className="gap-2">
+            <Settings className="w-4 h-4" />
+            <span className="hidden sm:inline">Settings</span>
+          </Button>
           <Button variant="ghost" size="sm" onClick={signOut} className="gap-2">
             <LogOut className="w-4 h-4" />
             <span className="hidden sm:inline">Sign out</span>
@@ -258,42 +373,41 @@ export function Dashboard() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv"
+                accept=".csv,.zip"
                 onChange={handleFileUpload}
                 className="hidden"
               />
-              <input
-                ref={gpxFileInputRef}
-                type="file"
-                accept=".gpx"
-                onChange={handleGPXUpload}
-                className="hidden"
-              />
               <div className="flex gap-3 justify-center">
                 <Button
                   onClick={() => fileInputRef.current?.click()}
+                  disabled={!!parsing}
                   size="lg"
                   className="gap-2"
                 >
                   <Upload className="w-5 h-5" />
-                  Upload CSV
-                </Button>
-                <Button
-                  onClick={() => gpxFileInputRef.current?.click()}
-                  size="lg"
-                  variant="outline"
-                  className="gap-2"
-                >
-                  <Plus className="w-5 h-5" />
-                  Upload Run
+                  Upload CSV / ZIP
                 </Button>
+                <UploadActivitiesDialog onImported={handleActivitiesImported}>
+                  <Button size="lg" variant="outline" className="gap-2">
+                    <Plus className="w-5 h-5" />
+                    Upload Runs
+                  </Button>
+                </UploadActivitiesDialog>
+                <AddActivityDialog onAdded={(activity) => handleActivitiesImported([activity])}>
+                  <Button size="lg" variant="outline" className="gap-2">
+                    <PenLine className="w-5 h-5" />
+                    Add Manually
+                  </Button>
+                </AddActivityDialog>
               </div>
               <p className="text-xs text-muted-foreground/70">
-                Bulk import via CSV or add a single .gpx file
+                Bulk import via CSV or Strava export ZIP, or add .gpx, .tcx and .fit files
               </p>
             </div>
           </div>
         </div>
+        {importPreviewDialog}
+        {parseProgressPanel}
       </div>
     );
   }
@@ -315,21 +429,34 @@ export function Dashboard() {
             </div>
             <div className="flex items-center gap-3">
               <input
-                ref={gpxFileInputRef}
+                ref={fileInputRef}
                 type="file"
-                accept=".gpx"
-                onChange={handleGPXUpload}
+                accept=".csv,.zip"
+                onChange={handleFileUpload}
                 className="hidden"
               />
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => gpxFileInputRef.current?.click()}
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!!parsing}
                 className="gap-2"
               >
-                <Plus className="w-4 h-4" />
-                <span className="hidden sm:inline">Upload Run</span>
+                <Upload className="w-4 h-4" />
+                <span className="hidden sm:inline">Import CSV</span>
               </Button>
+              <UploadActivitiesDialog onImported={handleActivitiesImported}>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  <span className="hidden sm:inline">Upload Runs</span>
+                </Button>
+              </UploadActivitiesDialog>
+              <AddActivityDialog onAdded={(activity) => handleActivitiesImported([activity])}>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <PenLine className="w-4 h-4" />
+                  <span className="hidden sm:inline">Add Activity</span>
+                </Button>
+              </AddActivityDialog>
               <Button
                 variant="ghost"
                 size="sm"
@@ -339,6 +466,15 @@ export function Dashboard() {
                 <List className="w-4 h-4" />
                 <span className="hidden sm:inline">All Activities</span>
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/imports")}
+                className="gap-2"
+              >
+                <History className="w-4 h-4" />
+                <span className="hidden sm:inline">Imports</span>
+              </Button>
               {isAdmin && (
                 <Button
                   variant="ghost"
@@ -350,7 +486,17 @@ export function Dashboard() {
                   <span className="hidden sm:inline">Admin</span>
                 </Button>
               )}
-              <span className="text-sm text-muted-foreground hidden sm:block">{user?.email}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate("/settings")}
+                className="gap-2"
+              >
+                <Settings className="w-4 h-4" />
+                <span className="hidden sm:inline">Settings</span>
+              </Button>
+              <UnitsMenu />
+              <span className="text-sm text-muted-foreground hidden sm:block">{settings.displayName || user?.email}</span>
               <Button variant="ghost" size="sm" onClick={signOut} className="gap-2">
                 <LogOut className="w-4 h-4" />
                 <span className="hidden sm:inline">Sign out</span>
@@ -361,50 +507,64 @@ export function Dashboard() {
       </header>
 
       <main className="container py-8">
-        {/* Date Range Filter */}
-        <div className="mb-6">
-          <DateRangeFilter
-            startDate={startDate}
-            endDate={endDate}
-            onStartDateChange={handleStartDateChange}
-            onEndDateChange={handleEndDateChange}
-            onClear={handleClearFilter}
-            activePreset={activePreset}
-            onPresetChange={handlePresetChange}
-            minDate={minDate}
-            maxDate={maxDate}
-          />
+        {/* Date Range and Type Filters */}
+        <div className="mb-6 flex flex-col lg:flex-row gap-3">
+          <div className="flex-1">
+            <DateRangeFilter
+              startDate={startDate}
+              endDate={endDate}
+              onStartDateChange={handleStartDateChange}
+              onEndDateChange={handleEndDateChange}
+              onClear={handleClearFilter}
+              activePreset={activePreset}
+              onPresetChange={handlePresetChange}
+              minDate={minDate}
+              maxDate={maxDate}
+            />
+          </div>
+          <div className="flex items-center p-4 bg-card rounded-lg border border-border/50 shadow-card">
+            <ActivityTypeFilter
+              availableTypes={availableTypes}
+              selectedTypes={selectedTypes}
+              onChange={handleTypesChange}
+            />
+          </div>
         </div>
 
-        {/* Stats Grid */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
-          <StatCard
-            icon={<MapPin className="w-5 h-5" />}
-            label="Total Distance"
-            value={`${stats.totalKm.toFixed(0)} km`}
-            subValue={`${stats.totalActivities} activities`}
-            delay={0}
-          />
-          <StatCard
-            icon={<Calendar className="w-5 h-5" />}
-            label="Weekly Average"
-            value={`${stats.avgPerWeek.toFixed(1)} km`}
-            subValue={`Across ${stats.weekCount} weeks`}
-            delay={50}
-          />
-          <StatCard
-            icon={<Trophy className="w-5 h-5" />}
-            label="Best Week"
-            value={`${stats.maxWeek?.totalKm.toFixed(1) || 0} km`}
-            subValue={stats.maxWeek?.weekLabel}
-            delay={100}
-          />
-          <StatCard
-            icon={<Zap className="w-5 h-5" />}
-            label="Avg per Activity"
-            value={`${stats.avgPerActivity.toFixed(1)} km`}
-            delay={150}
-          />
+        {/* Stats Grid and Race Predictor */}
+        <div className="flex flex-col xl:flex-row gap-4 mb-8">
+          <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-2 gap-4 content-start">
+            <StatCard
+              icon={<MapPin className="w-5 h-5" />}
+              label="Total Distance"
+              value={formatDistance(stats.totalKm, 0)}
+              subValue={`${stats.totalActivities} activities`}
+              delay={0}
+            />
+            <StatCard
+              icon={<Calendar className="w-5 h-5" />}
+              label="Weekly Average"
+              value={formatDistance(stats.avgPerWeek)}
+              subValue={`Across ${stats.weekCount} weeks`}
+              delay={50}
+            />
+            <StatCard
+              icon={<Trophy className="w-5 h-5" />}
+              label="Best Week"
+              value={formatDistance(stats.maxWeek?.totalKm ?? 0)}
+              subValue={stats.maxWeek?.weekLabel}
+              delay={100}
+            />
+            <StatCard
+              icon={<Zap className="w-5 h-5" />}
+              label="Avg per Activity"
+              value={formatDistance(stats.avgPerActivity)}
+              delay={150}
+            />
+          </div>
+          <div className="xl:w-96">
+            <RacePredictor efforts={bestEfforts} />
+          </div>
         </div>
 
         {/* Chart */}
@@ -417,7 +577,14 @@ export function Dashboard() {
           <MonthlyChart activities={filteredActivities} />
           <RecentWeeks weeks={weeks} />
         </div>
+
+        {/* Personal Records */}
+        <div className="mt-6">
+          <PersonalRecords efforts={bestEfforts} activities={allActivities} />
+        </div>
       </main>
+      {importPreviewDialog}
+      {parseProgressPanel}
     </div>
   );
 }
\ No newline at end of file
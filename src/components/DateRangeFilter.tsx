@@ -1,6 +1,7 @@
 import { format, subMonths, subWeeks, startOfYear } from "date-fns";
 import { CalendarIcon, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { DATE_PRESETS, PresetKey } from "@/lib/datePresets";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -9,16 +10,6 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 
-type PresetKey = "3m" | "6m" | "ytd" | "1y" | "all";
-
-const presets: { key: PresetKey; label: string }[] = [
-  { key: "3m", label: "3 months" },
-  { key: "6m", label: "6 months" },
-  { key: "ytd", label: "Year to date" },
-  { key: "1y", label: "1 year" },
-  { key: "all", label: "All time" },
-];
-
 interface DateRangeFilterProps {
   startDate: Date | undefined;
   endDate: Date | undefined;
@@ -47,7 +38,7 @@ export function DateRangeFilter({
   return (
     <div className="flex flex-wrap items-center gap-3 p-4 bg-card rounded-lg border border-border/50 shadow-card">
       <div className="flex flex-wrap gap-2">
-        {presets.map((preset) => (
+        {DATE_PRESETS.map((preset) => (
           <Button
             key={preset.key}
             variant={activePreset === preset.key ? "default" : "outline"}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/hooks/useSettings";
+import { useToast } from "@/hooks/use-toast";
+import { Tables } from "@/integrations/supabase/types";
+import { activityFormSchema, ActivityFormValues, emptyActivityForm, fromActivityForm, toActivityForm } from "@/lib/activityForm";
+import { restoreOriginalValues, updateActivity } from "@/lib/activityEdits";
+import { Loader2, RotateCcw } from "lucide-react";
+import { ActivityFormFields } from "./ActivityFormFields";
+
+type ActivityRow = Tables<"activities">;
+
+interface EditActivityDialogProps {
+  // The activity being edited; the dialog is open while this is set
+  activity: ActivityRow | null;
+  onClose: () => void;
+  onSaved: (activity: ActivityRow) => void;
+}
+
+export function EditActivityDialog({ activity, onClose, onSaved }: EditActivityDialogProps) {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const { toast } = useToast();
+  const [restoring, setRestoring] = useState(false);
+  const form = useForm<ActivityFormValues>({
+    resolver: zodResolver(activityFormSchema),
+    defaultValues: emptyActivityForm(),
+  });
+
+  useEffect(() => {
+    if (activity) form.reset(toActivityForm(activity, settings));
+  }, [activity, settings, form]);
+
+  const busy = form.formState.isSubmitting || restoring;
+
+  const onSubmit = async (values: ActivityFormValues) => {
+    if (!user || !activity) return;
+
+    const input = fromActivityForm(values, settings);
+    // Converting units rounds, so fields left alone keep their stored values
+    const { dirtyFields } = form.formState;
+    if (!dirtyFields.distance) input.distanceKm = Number(activity.distance_km);
+    if (!dirtyFields.elevation) input.elevationGain = activity.elevation_gain;
+
+    try {
+      const saved = await updateActivity(user.id, activity, input);
+      toast({ title: "Activity updated", description: saved.name });
+      onSaved(saved);
+      onClose();
+    } catch (err) {
+      console.error("Error updating activity:", err);
+      toast({ title: "Error", description: "Failed to update activity", variant: "destructive" });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!user || !activity) return;
+
+    setRestoring(true);
+    try {
+      const restored = await restoreOriginalValues(user.id, activity);
+      toast({ title: "Original values restored", description: restored.name });
+      onSaved(restored);
+      onClose();
+    } catch (err) {
+      console.error("Error restoring activity:", err);
+      toast({ title: "Error", description: "Failed to restore activity", variant: "destructive" });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!activity} onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Edit Activity</DialogTitle>
+          <DialogDescription>
+            {activity?.edited_at
+              ? `Last edited ${format(new Date(activity.edited_at), "MMM d, yyyy")}. The values from before the first edit are kept.`
+              : "Correct values your device got wrong. The original values are kept."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <ActivityFormFields form={form} showElapsed />
+            <p className="text-sm text-muted-foreground">
+              Times are where the activity was recorded.
+            </p>
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              {activity?.original_values ? (
+                <Button type="button" variant="ghost" onClick={handleRestore} disabled={busy} className="gap-2">
+                  {restoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                  Restore original
+                </Button>
+              ) : (
+                <span />
+              )}
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={onClose} disabled={busy}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={busy} className="gap-2">
+                  {form.formState.isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Save changes
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DiffField, FieldChange, ImportPreview } from "@/lib/importActivities";
+import { formatDistance, formatElevation, UnitPreferences } from "@/lib/units";
+import { useSettings } from "@/hooks/useSettings";
+import { Loader2 } from "lucide-react";
+
+interface ImportPreviewDialogProps {
+  preview: ImportPreview | null;
+  saving: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const fieldLabels: Record<DiffField, string> = {
+  name: "Name",
+  activity_date: "Date",
+  activity_type: "Type",
+  distance_km: "Distance",
+  elapsed_time: "Elapsed time (s)",
+  moving_time: "Moving time (s)",
+  elevation_gain: "Elevation",
+  avg_heart_rate: "Avg HR",
+  max_heart_rate: "Max HR",
+};
+
+function formatValue(change: FieldChange, value: FieldChange["from"], units: UnitPreferences): string {
+  if (value === null || value === undefined) return "-";
+  if (change.field === "activity_date") return format(new Date(value), "d MMM yyyy, HH:mm");
+  if (change.field === "distance_km") return formatDistance(Number(value), units.distanceUnit, 2);
+  if (change.field === "elevation_gain") return formatElevation(Number(value), units.elevationUnit);
+  if (typeof value === "number") return String(Math.round(value * 100) / 100);
+  return value;
+}
+
+function SummaryCount({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-lg border bg-secondary/50 p-3 text-center">
+      <p className="text-2xl font-display font-bold text-foreground">{value}</p>
+      <p className="text-xs text-muted-foreground">{label}</p>
+    </div>
+  );
+}
+
+export function ImportPreviewDialog({ preview, saving, onConfirm, onCancel }: ImportPreviewDialogProps) {
+  const { settings } = useSettings();
+  const writeCount = preview ? preview.newRows.length + preview.overwrites.length : 0;
+  const migrationCount = preview ? preview.rekeys.length + preview.legacyDuplicates.length : 0;
+  const streamCount = preview?.streams.size ?? 0;
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && !saving && onCancel()}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Review Import</DialogTitle>
+          <DialogDescription>
+            Nothing has been saved yet. Check what this import will change before confirming.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <SummaryCount label="New" value={preview.newRows.length} />
+              <SummaryCount label="Overwrite" value={preview.overwrites.length} />
+              <SummaryCount label="Unchanged" value={preview.unchanged} />
+              <SummaryCount label="Skipped" value={preview.skipped.length} />
+            </div>
+
+            {migrationCount > 0 && (
+              <p className="text-sm text-muted-foreground rounded-lg border bg-secondary/50 p-3">
+                {preview.rekeys.length} previously imported{" "}
+                {preview.rekeys.length === 1 ? "activity" : "activities"} will be linked to{" "}
+                {preview.rekeys.length === 1 ? "its" : "their"} Strava activity ID
+                {preview.legacyDuplicates.length > 0 &&
+                  `, and ${preview.legacyDuplicates.length} duplicate ${
+                    preview.legacyDuplicates.length === 1 ? "copy" : "copies"
+                  } left by renames will be removed`}
+                .
+              </p>
+            )}
+
+            {streamCount > 0 && (
+              <p className="text-sm text-muted-foreground rounded-lg border bg-secondary/50 p-3">
+                Recorded tracks from {streamCount} track {streamCount === 1 ? "file" : "files"} will be
+                saved with {streamCount === 1 ? "its activity" : "their activities"}, including unchanged ones.
+              </p>
+            )}
+
+            {preview.overwrites.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-foreground">Changes to existing activities</h3>
+                <div className="rounded-lg border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Activity</TableHead>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Current</TableHead>
+                        <TableHead>New</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.overwrites.flatMap(({ row, changes }) =>
+                        changes.map((change, index) => (
+                          <TableRow key={`${row.strava_id}-${change.field}`}>
+                            <TableCell className="font-medium">
+                              {index === 0 ? row.name : ""}
+                            </TableCell>
+                            <TableCell>{fieldLabels[change.field]}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {formatValue(change, change.from, settings)}
+                            </TableCell>
+                            <TableCell>{formatValue(change, change.to, settings)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {preview.skipped.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-foreground">Skipped</h3>
+                <ul className="rounded-lg border divide-y text-sm">
+                  {preview.skipped.map((skip, index) => (
+                    <li key={index} className="flex justify-between gap-4 px-3 py-2">
+                      <span className="text-foreground">{skip.label}</span>
+                      <span className="text-muted-foreground text-right">{skip.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={saving || writeCount + migrationCount + streamCount === 0}>
+            {saving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : writeCount === 0 && streamCount > 0 ? (
+              "Save tracks"
+            ) : (
+              `Import ${writeCount} ${writeCount === 1 ? "activity" : "activities"}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
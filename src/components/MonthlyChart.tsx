@@ -1,6 +1,7 @@
-import { Activity as ActivityType } from "@/lib/parseActivities";
+import { Activity as ActivityType, getLocalDate } from "@/lib/parseActivities";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
 import { Calendar } from "lucide-react";
+import { useUnits } from "@/hooks/useUnits";
 
 interface MonthlyChartProps {
   activities: ActivityType[];
@@ -16,8 +17,9 @@ function groupByMonth(activities: ActivityType[]): MonthData[] {
   const monthMap = new Map<string, MonthData>();
   
   for (const activity of activities) {
-    const year = activity.date.getFullYear();
-    const month = activity.date.getMonth();
+    const localDate = getLocalDate(activity);
+    const year = localDate.getFullYear();
+    const month = localDate.getMonth();
     const key = `${year}-${String(month).padStart(2, '0')}`;
     
     const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -38,7 +40,11 @@ function groupByMonth(activities: ActivityType[]): MonthData[] {
 }
 
 export function MonthlyChart({ activities }: MonthlyChartProps) {
-  const monthData = groupByMonth(activities);
+  const { distanceUnit, convertDistance } = useUnits();
+  const monthData = groupByMonth(activities).map(m => ({
+    ...m,
+    distance: convertDistance(m.totalKm),
+  }));
   const maxKm = Math.max(...monthData.map(m => m.totalKm), 0);
   
   return (
@@ -76,9 +82,9 @@ export function MonthlyChart({ activities }: MonthlyChartProps) {
               labelStyle={{ color: 'hsl(var(--foreground))', fontWeight: 600 }}
               itemStyle={{ color: 'hsl(var(--foreground))' }}
               cursor={{ fill: 'hsl(var(--muted) / 0.3)' }}
-              formatter={(value: number) => [`${value.toFixed(1)} km`, 'Distance']}
+              formatter={(value: number) => [`${value.toFixed(1)} ${distanceUnit}`, 'Distance']}
             />
-            <Bar dataKey="totalKm" radius={[4, 4, 0, 0]}>
+            <Bar dataKey="distance" radius={[4, 4, 0, 0]}>
               {monthData.map((entry, index) => (
                 <Cell 
                   key={entry.month}
@@ -0,0 +1,36 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ParseProgress } from "@/lib/parseActivities";
+import { cn } from "@/lib/utils";
+
+interface ParseProgressBarProps {
+  label: string;
+  progress: ParseProgress | null;
+  // What the progress rows count, e.g. "rows" or "files"
+  unit: string;
+  onCancel?: () => void;
+  className?: string;
+}
+
+export function ParseProgressBar({ label, progress, unit, onCancel, className }: ParseProgressBarProps) {
+  const percent = progress ? Math.min(100, Math.round(progress.fraction * 100)) : 0;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="font-medium text-foreground truncate">{label}</span>
+        <span className="text-muted-foreground whitespace-nowrap">
+          {progress ? `${progress.rows.toLocaleString()} ${unit} · ${percent}%` : "Starting..."}
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" />
+      {onCancel && (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Activity } from "@/lib/parseActivities";
+import { BEST_EFFORT_DISTANCES, BestEffortKey, BestEffortRecord, recordProgression } from "@/lib/bestEfforts";
+import { formatDurationInput } from "@/lib/activityForm";
+import { useUnits } from "@/hooks/useUnits";
+import { ChevronDown, Trophy } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface PersonalRecordsProps {
+  efforts: BestEffortRecord[];
+  activities: Activity[];
+}
+
+export function PersonalRecords({ efforts, activities }: PersonalRecordsProps) {
+  const { formatPace } = useUnits();
+  const navigate = useNavigate();
+  const [expanded, setExpanded] = useState<BestEffortKey | null>(null);
+  const activityNames = new Map(activities.map(a => [a.rowId, a.name]));
+
+  const records = BEST_EFFORT_DISTANCES.map(distance => ({
+    ...distance,
+    progression: recordProgression(efforts, distance.key),
+  }));
+
+  return (
+    <div className="bg-card rounded-lg p-6 shadow-card border border-border/50 animate-slide-up" style={{ animationDelay: '500ms' }}>
+      <div className="flex items-center justify-between mb-5">
+        <h2 className="text-lg font-display font-bold text-foreground">Personal Records</h2>
+        <Trophy className="w-5 h-5 text-primary" />
+      </div>
+
+      {efforts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Best efforts are found in recorded tracks. Upload .gpx, .tcx or .fit runs, or a Strava export ZIP, to see them here.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {records.map(({ key, label, meters, progression }) => {
+            const record = progression[progression.length - 1];
+            const isExpanded = expanded === key;
+
+            return (
+              <div key={key} className="rounded-lg bg-secondary/50">
+                <button
+                  type="button"
+                  onClick={() => setExpanded(isExpanded ? null : key)}
+                  disabled={!record}
+                  className="w-full flex items-center justify-between p-3 rounded-lg text-left hover:bg-secondary transition-colors"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-foreground">{label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {record
+                        ? `${format(record.achievedAt, "d MMM yyyy")} · ${activityNames.get(record.activityId) ?? "Deleted activity"}`
+                        : "No effort this long yet"}
+                    </p>
+                  </div>
+
+                  {record && (
+                    <div className="flex items-center gap-3">
+                      <div className="text-right">
+                        <p className="text-lg font-display font-bold text-foreground">{formatDurationInput(record.time)}</p>
+                        <p className="text-xs text-muted-foreground">{formatPace(record.time, meters / 1000)}</p>
+                      </div>
+                      <ChevronDown className={cn("w-4 h-4 text-muted-foreground transition-transform", isExpanded && "rotate-180")} />
+                    </div>
+                  )}
+                </button>
+
+                {isExpanded && (
+                  <div className="px-3 pb-3 space-y-1">
+                    {[...progression].reverse().map((effort, index, newestFirst) => {
+                      const previous = newestFirst[index + 1];
+                      return (
+                        <button
+                          key={effort.activityId}
+                          type="button"
+                          onClick={() => navigate(`/activities/${effort.activityId}`)}
+                          className="w-full flex items-center justify-between gap-3 px-2 py-1.5 rounded text-left text-sm hover:bg-background/60 transition-colors"
+                        >
+                          <span className="text-xs text-muted-foreground w-24 shrink-0">
+                            {format(effort.achievedAt, "d MMM yyyy")}
+                          </span>
+                          <span className="flex-1 truncate text-foreground">
+                            {activityNames.get(effort.activityId) ?? "Deleted activity"}
+                          </span>
+                          <span className="text-xs text-strava-success whitespace-nowrap">
+                            {previous && `-${formatDurationInput(previous.time - effort.time)}`}
+                          </span>
+                          <span className="font-medium text-foreground whitespace-nowrap">
+                            {formatDurationInput(effort.time)}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
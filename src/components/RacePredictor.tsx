@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUnits } from "@/hooks/useUnits";
+import { BestEffortRecord, getBestEffortDistance } from "@/lib/bestEfforts";
+import { formatDurationInput } from "@/lib/activityForm";
+import { loadRaceResults, RaceResult } from "@/lib/raceResults";
+import {
+  bestVdot,
+  Performance,
+  PERFORMANCE_SOURCES,
+  PerformanceSource,
+  predictRaces,
+  PREDICTION_MODELS,
+  PredictionModel,
+  RECENT_DAYS,
+  recentPerformances,
+} from "@/lib/racePredictor";
+import { Timer } from "lucide-react";
+import { RaceResultsDialog } from "./RaceResultsDialog";
+
+interface RacePredictorProps {
+  efforts: BestEffortRecord[];
+}
+
+export function RacePredictor({ efforts }: RacePredictorProps) {
+  const { user } = useAuth();
+  const { formatPace } = useUnits();
+  const navigate = useNavigate();
+  const [model, setModel] = useState<PredictionModel>("riegel");
+  const [source, setSource] = useState<PerformanceSource>("both");
+  const [races, setRaces] = useState<RaceResult[]>([]);
+
+  const loadRaces = useCallback(() => {
+    if (!user) return;
+    loadRaceResults(user.id)
+      .then(setRaces)
+      .catch(err => console.error("Error loading race results:", err));
+  }, [user]);
+
+  useEffect(() => {
+    loadRaces();
+  }, [loadRaces]);
+
+  const performances = useMemo(() => {
+    const fromEfforts: Performance[] = efforts.map(effort => ({
+      label: `${getBestEffortDistance(effort.key).label} effort`,
+      meters: getBestEffortDistance(effort.key).meters,
+      time: effort.time,
+      date: effort.achievedAt,
+      activityId: effort.activityId,
+    }));
+    const fromRaces: Performance[] = races.map(race => ({
+      label: race.name,
+      meters: race.meters,
+      time: race.time,
+      date: race.date,
+      activityId: null,
+    }));
+
+    const selected = source === "efforts" ? fromEfforts : source === "races" ? fromRaces : [...fromEfforts, ...fromRaces];
+    return recentPerformances(selected);
+  }, [efforts, races, source]);
+
+  const predictions = useMemo(() => predictRaces(performances, model), [performances, model]);
+  const vdot = model === "vdot" ? bestVdot(performances) : null;
+
+  return (
+    <div className="bg-card rounded-lg p-5 shadow-card border border-border/50 animate-slide-up" style={{ animationDelay: '200ms' }}>
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-lg bg-primary/10 text-primary">
+            <Timer className="w-5 h-5" />
+          </div>
+          <div>
+            <p className="text-muted-foreground text-sm font-medium">Race Predictor</p>
+            {vdot !== null && (
+              <p className="text-xs text-muted-foreground">VDOT {vdot.toFixed(1)}</p>
+            )}
+          </div>
+        </div>
+        <RaceResultsDialog results={races} onChange={loadRaces}>
+          <Button variant="ghost" size="sm">Races</Button>
+        </RaceResultsDialog>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={model}
+          onValueChange={(value) => value && setModel(value as PredictionModel)}
+          aria-label="Prediction model"
+        >
+          {PREDICTION_MODELS.map(m => (
+            <ToggleGroupItem key={m.value} value={m.value}>{m.label}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={source}
+          onValueChange={(value) => value && setSource(value as PerformanceSource)}
+          aria-label="Based on"
+        >
+          {PERFORMANCE_SOURCES.map(s => (
+            <ToggleGroupItem key={s.value} value={s.value}>{s.label}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {predictions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Needs a run or race of 3K or more in the last {RECENT_DAYS} days. Best efforts come from uploaded
+          tracks; races can be added by hand.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {predictions.map(prediction => (
+            <div key={prediction.key} className="flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-foreground">{prediction.label}</p>
+                <button
+                  type="button"
+                  onClick={() => prediction.basis.activityId && navigate(`/activities/${prediction.basis.activityId}`)}
+                  disabled={!prediction.basis.activityId}
+                  className="block max-w-full truncate text-left text-xs text-muted-foreground enabled:hover:text-foreground transition-colors"
+                >
+                  From {prediction.basis.label}, {format(prediction.basis.date, "d MMM")}
+                </button>
+              </div>
+              <div className="text-right whitespace-nowrap">
+                <p className="text-lg font-display font-bold text-foreground">{formatDurationInput(Math.round(prediction.time))}</p>
+                <p className="text-xs text-muted-foreground">{formatPace(prediction.time, prediction.meters / 1000)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
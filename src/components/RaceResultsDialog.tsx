@@ -0,0 +1,239 @@
+import { ReactNode, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/hooks/useSettings";
+import { useUnits } from "@/hooks/useUnits";
+import { useToast } from "@/hooks/use-toast";
+import { BEST_EFFORT_DISTANCES } from "@/lib/bestEfforts";
+import { formatDurationInput } from "@/lib/activityForm";
+import {
+  addRaceResult,
+  createRaceResultFormSchema,
+  deleteRaceResult,
+  emptyRaceResultForm,
+  HOURS_REQUIRED_METERS,
+  OTHER_DISTANCE,
+  RaceResult,
+  RaceResultFormValues,
+  raceMeters,
+} from "@/lib/raceResults";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface RaceResultsDialogProps {
+  children: ReactNode;
+  results: RaceResult[];
+  onChange: () => void;
+}
+
+export function RaceResultsDialog({ children, results, onChange }: RaceResultsDialogProps) {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const { distanceUnit, formatDistance } = useUnits();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const schema = useMemo(() => createRaceResultFormSchema(distanceUnit), [distanceUnit]);
+  const form = useForm<RaceResultFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: emptyRaceResultForm(),
+  });
+  const distanceKey = form.watch("distanceKey");
+  const meters = raceMeters({ distanceKey, distance: form.watch("distance") }, distanceUnit);
+
+  const handleOpenChange = (next: boolean) => {
+    if (form.formState.isSubmitting) return;
+    if (next) form.reset(emptyRaceResultForm());
+    setOpen(next);
+  };
+
+  const onSubmit = async (values: RaceResultFormValues) => {
+    if (!user) return;
+
+    try {
+      const result = await addRaceResult(user.id, values, settings);
+      toast({ title: "Race added", description: result.name });
+      form.reset(emptyRaceResultForm());
+      onChange();
+    } catch (err) {
+      console.error("Error adding race result:", err);
+      toast({ title: "Error", description: "Failed to add race", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (result: RaceResult) => {
+    setDeletingId(result.id);
+    try {
+      await deleteRaceResult(result.id);
+      onChange();
+    } catch (err) {
+      console.error("Error deleting race result:", err);
+      toast({ title: "Error", description: "Failed to delete race", variant: "destructive" });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Race Results</DialogTitle>
+          <DialogDescription>
+            Add races run without a recorded track so the predictor can use them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {results.length > 0 && (
+          <div className="max-h-48 overflow-y-auto space-y-2">
+            {results.map(result => (
+              <div key={result.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">{result.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(result.date, "d MMM yyyy")} · {formatDistance(result.meters / 1000, 2)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">{formatDurationInput(result.time)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(result)}
+                    disabled={deletingId === result.id}
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  >
+                    {deletingId === result.id
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Race</FormLabel>
+                    <FormControl>
+                      <Input placeholder="City 10K" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="distanceKey"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Distance</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {BEST_EFFORT_DISTANCES.map(d => (
+                          <SelectItem key={d.key} value={d.key}>{d.label}</SelectItem>
+                        ))}
+                        <SelectItem value={OTHER_DISTANCE}>Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {distanceKey === OTHER_DISTANCE && (
+                <FormField
+                  control={form.control}
+                  name="distance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Distance ({distanceUnit})</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="time"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Finish time</FormLabel>
+                    <FormControl>
+                      <Input placeholder={meters !== null && meters >= HOURS_REQUIRED_METERS ? "h:mm:ss" : "mm:ss"} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={form.formState.isSubmitting} className="gap-2">
+                {form.formState.isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Add race
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
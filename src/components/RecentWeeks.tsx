@@ -1,16 +1,32 @@
-import { WeekData } from "@/lib/parseActivities";
-import { TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { getLocalDate, WeekData } from "@/lib/parseActivities";
+import { useSettings } from "@/hooks/useSettings";
+import { useUnits } from "@/hooks/useUnits";
+import { WEEKDAYS } from "@/lib/settings";
+import { TrendingUp, TrendingDown, Minus, ChevronDown } from "lucide-react";
+import { cn } from "@/lib/utils";
 
 interface RecentWeeksProps {
   weeks: WeekData[];
 }
 
 export function RecentWeeks({ weeks }: RecentWeeksProps) {
+  const { settings } = useSettings();
+  const { formatDistance } = useUnits();
+  const navigate = useNavigate();
+  const [expandedWeek, setExpandedWeek] = useState<string | null>(null);
   const recentWeeks = weeks.slice(-8).reverse();
+  const firstDay = WEEKDAYS[settings.weekStartDay];
+  const lastDay = WEEKDAYS[(settings.weekStartDay + 6) % 7];
   
   return (
     <div className="bg-card rounded-lg p-6 shadow-card border border-border/50 animate-slide-up" style={{ animationDelay: '400ms' }}>
-      <h2 className="text-lg font-display font-bold text-foreground mb-5">Recent Weeks</h2>
+      <div className="flex items-center justify-between mb-5">
+        <h2 className="text-lg font-display font-bold text-foreground">Recent Weeks</h2>
+        <span className="text-xs text-muted-foreground">{firstDay.slice(0, 3)} – {lastDay.slice(0, 3)}</span>
+      </div>
       
       <div className="space-y-3">
         {recentWeeks.map((week, index) => {
@@ -20,38 +36,64 @@ export function RecentWeeks({ weeks }: RecentWeeksProps) {
             ? (change / prevWeek.totalKm) * 100 
             : 0;
           
+          const expanded = expandedWeek === week.weekLabel;
+          
           return (
-            <div 
-              key={week.weekLabel}
-              className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
-            >
-              <div>
-                <p className="text-sm font-medium text-foreground">{week.weekLabel}</p>
-                <p className="text-xs text-muted-foreground">
-                  {week.activityCount} {week.activityCount === 1 ? 'activity' : 'activities'}
-                </p>
-              </div>
+            <div key={week.weekLabel} className="rounded-lg bg-secondary/50">
+              <button
+                type="button"
+                onClick={() => setExpandedWeek(expanded ? null : week.weekLabel)}
+                className="w-full flex items-center justify-between p-3 rounded-lg text-left hover:bg-secondary transition-colors"
+              >
+                <div>
+                  <p className="text-sm font-medium text-foreground">{week.weekLabel}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {week.activityCount} {week.activityCount === 1 ? 'activity' : 'activities'}
+                  </p>
+                </div>
               
-              <div className="flex items-center gap-3">
-                <span className="text-lg font-display font-bold text-foreground">
-                  {week.totalKm.toFixed(1)} km
-                </span>
+                <div className="flex items-center gap-3">
+                  <span className="text-lg font-display font-bold text-foreground">
+                    {formatDistance(week.totalKm)}
+                  </span>
                 
-                {index < recentWeeks.length - 1 && (
-                  <div className={`flex items-center gap-1 text-xs ${
-                    change > 0 ? 'text-strava-success' : change < 0 ? 'text-destructive' : 'text-muted-foreground'
-                  }`}>
-                    {change > 0 ? (
-                      <TrendingUp className="w-3.5 h-3.5" />
-                    ) : change < 0 ? (
-                      <TrendingDown className="w-3.5 h-3.5" />
-                    ) : (
-                      <Minus className="w-3.5 h-3.5" />
-                    )}
-                    <span>{Math.abs(changePercent).toFixed(0)}%</span>
-                  </div>
-                )}
-              </div>
+                  {index < recentWeeks.length - 1 && (
+                    <div className={`flex items-center gap-1 text-xs ${
+                      change > 0 ? 'text-strava-success' : change < 0 ? 'text-destructive' : 'text-muted-foreground'
+                    }`}>
+                      {change > 0 ? (
+                        <TrendingUp className="w-3.5 h-3.5" />
+                      ) : change < 0 ? (
+                        <TrendingDown className="w-3.5 h-3.5" />
+                      ) : (
+                        <Minus className="w-3.5 h-3.5" />
+                      )}
+                      <span>{Math.abs(changePercent).toFixed(0)}%</span>
+                    </div>
+                  )}
+                  <ChevronDown className={cn("w-4 h-4 text-muted-foreground transition-transform", expanded && "rotate-180")} />
+                </div>
+              </button>
+            
+              {expanded && (
+                <div className="px-3 pb-3 space-y-1">
+                  {week.activities.map((activity) => (
+                    <button
+                      key={activity.id}
+                      type="button"
+                      onClick={() => activity.rowId && navigate(`/activities/${activity.rowId}`)}
+                      disabled={!activity.rowId}
+                      className="w-full flex items-center justify-between gap-3 px-2 py-1.5 rounded text-left text-sm hover:bg-background/60 transition-colors"
+                    >
+                      <span className="text-xs text-muted-foreground w-16 shrink-0">
+                        {format(getLocalDate(activity), "EEE d")}
+                      </span>
+                      <span className="flex-1 truncate text-foreground">{activity.name}</span>
+                      <span className="text-muted-foreground whitespace-nowrap">{formatDistance(activity.distanceKm)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           );
         })}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useUnits } from "@/hooks/useUnits";
+import { ActivityStream } from "@/lib/streams";
+import {
+  colorAt,
+  colorPaths,
+  colorValues,
+  distanceMarkers,
+  projectRoute,
+  RouteColorMode,
+  tilesForFrame,
+  valueRange,
+} from "@/lib/routeMap";
+import { metersPerUnit } from "@/lib/units";
+
+// Tiles are only fetched when a {z}/{x}/{y} URL is configured, so the map
+// works offline by default
+const TILE_URL: string | undefined = import.meta.env.VITE_MAP_TILE_URL;
+const TILE_ATTRIBUTION: string | undefined = import.meta.env.VITE_MAP_TILE_ATTRIBUTION;
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const PLAIN_COLOR = "hsl(var(--primary))";
+
+interface RouteMapProps {
+  stream: ActivityStream;
+}
+
+export function RouteMap({ stream }: RouteMapProps) {
+  const { distanceUnit, formatPace } = useUnits();
+  const [mode, setMode] = useState<RouteColorMode>("plain");
+  const hasHeartRate = stream.heartRate.some(v => v !== null);
+
+  const frame = useMemo(() => projectRoute(stream, WIDTH, HEIGHT), [stream]);
+  const tiles = useMemo(() => (frame && TILE_URL ? tilesForFrame(frame, TILE_URL) : []), [frame]);
+  const markers = useMemo(
+    () => (frame ? distanceMarkers(frame, stream, metersPerUnit(distanceUnit)) : []),
+    [frame, stream, distanceUnit]
+  );
+  const { paths, range } = useMemo(() => {
+    const values = colorValues(stream, mode);
+    const range = mode === "plain" ? null : valueRange(values);
+    return { paths: frame ? colorPaths(frame, values, range, PLAIN_COLOR) : [], range };
+  }, [frame, stream, mode]);
+
+  if (!frame) {
+    return <p className="text-sm text-muted-foreground">This track has no GPS positions to draw.</p>;
+  }
+
+  const start = frame.points[0];
+  const finish = frame.points[frame.points.length - 1];
+  // Speeds as pace, slowest on the left like the colours
+  const formatLegend = (value: number) =>
+    mode === "pace" ? formatPace(1000 / value, 1) : `${Math.round(value)} bpm`;
+
+  return (
+    <div className="space-y-3">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={mode}
+        onValueChange={(value) => value && setMode(value as RouteColorMode)}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="plain">Route</ToggleGroupItem>
+        <ToggleGroupItem value="pace">Pace</ToggleGroupItem>
+        <ToggleGroupItem value="heartRate" disabled={!hasHeartRate}>Heart rate</ToggleGroupItem>
+      </ToggleGroup>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto rounded-lg bg-secondary/50"
+        role="img"
+        aria-label="Route map"
+      >
+        {tiles.map(tile => (
+          <image
+            key={tile.url}
+            href={tile.url}
+            x={tile.x}
+            y={tile.y}
+            width={tile.size}
+            height={tile.size}
+            preserveAspectRatio="none"
+          />
+        ))}
+
+        {paths.map((path, index) => (
+          <polyline
+            key={index}
+            points={path.points.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(" ")}
+            fill="none"
+            stroke={path.color}
+            strokeWidth={3}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+
+        {markers.map(marker => (
+          <g key={marker.label}>
+            <circle cx={marker.x} cy={marker.y} r={9} fill="hsl(var(--card))" stroke="hsl(var(--foreground))" strokeWidth={1} />
+            <text
+              x={marker.x}
+              y={marker.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={9}
+              fill="hsl(var(--foreground))"
+            >
+              {marker.label}
+            </text>
+          </g>
+        ))}
+
+        <circle cx={finish.x} cy={finish.y} r={7} fill="hsl(var(--destructive))" stroke="white" strokeWidth={2}>
+          <title>Finish</title>
+        </circle>
+        <circle cx={start.x} cy={start.y} r={7} fill="hsl(var(--strava-success))" stroke="white" strokeWidth={2}>
+          <title>Start</title>
+        </circle>
+      </svg>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          Markers every {distanceUnit === "mi" ? "mile" : "km"}
+          {tiles.length > 0 && TILE_ATTRIBUTION && ` · ${TILE_ATTRIBUTION}`}
+        </span>
+        {range && (
+          <div className="flex items-center gap-2">
+            <span>{formatLegend(range.min)}</span>
+            <div
+              className="h-2 w-24 rounded-full"
+              style={{ background: `linear-gradient(to right, ${colorAt(0)}, ${colorAt(0.5)}, ${colorAt(1)})` }}
+            />
+            <span>{formatLegend(range.max)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
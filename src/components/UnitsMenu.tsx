@@ -0,0 +1,60 @@
+import { Ruler } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useSettings } from "@/hooks/useSettings";
+import { isDistanceUnit, isElevationUnit } from "@/lib/units";
+import { useToast } from "@/hooks/use-toast";
+
+export function UnitsMenu() {
+  const { settings, updateSettings } = useSettings();
+  const { toast } = useToast();
+
+  const save = async (changes: Parameters<typeof updateSettings>[0]) => {
+    const { error } = await updateSettings(changes);
+    if (error) {
+      toast({
+        title: "Couldn't save units",
+        description: "Your choice applies until you reload the page.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <Ruler className="w-4 h-4" />
+          <span className="hidden sm:inline">{settings.distanceUnit}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>Distance</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={settings.distanceUnit}
+          onValueChange={(value) => isDistanceUnit(value) && save({ distanceUnit: value })}
+        >
+          <DropdownMenuRadioItem value="km">Kilometres</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="mi">Miles</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Elevation</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={settings.elevationUnit}
+          onValueChange={(value) => isElevationUnit(value) && save({ elevationUnit: value })}
+        >
+          <DropdownMenuRadioItem value="m">Metres</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="ft">Feet</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,229 @@
+import { ReactNode, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/hooks/useSettings";
+import { useUnits } from "@/hooks/useUnits";
+import { Activity, ParseProgress } from "@/lib/parseActivities";
+import { TRACK_FILE_ACCEPT } from "@/lib/parseTrackFile";
+import { parseTrackFilesInWorker } from "@/lib/parseInWorker";
+import { FileImportResult, FileImportStatus, saveParsedFiles } from "@/lib/importActivities";
+import { cn } from "@/lib/utils";
+import { Loader2, Upload } from "lucide-react";
+import { ParseProgressBar } from "./ParseProgressBar";
+
+interface UploadActivitiesDialogProps {
+  children: ReactNode;
+  onImported: (activities: Activity[]) => void;
+}
+
+const statusVariant: Record<FileImportStatus, "default" | "secondary" | "destructive"> = {
+  imported: "default",
+  duplicate: "secondary",
+  failed: "destructive",
+};
+
+export function UploadActivitiesDialog({ children, onImported }: UploadActivitiesDialogProps) {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const { formatDistance } = useUnits();
+  const [open, setOpen] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [results, setResults] = useState<FileImportResult[] | null>(null);
+  const [incomplete, setIncomplete] = useState(false);
+  const [tracksSaved, setTracksSaved] = useState(true);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0 || !user) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setImporting(true);
+    setResults(null);
+    setIncomplete(false);
+    setTracksSaved(true);
+    setProgress(null);
+
+    try {
+      const parsed = await parseTrackFilesInWorker(files, { onProgress: setProgress, signal: controller.signal });
+      setSaving(true);
+      const saved = await saveParsedFiles(user.id, parsed.map((result, index): FileImportResult => (
+        result.error
+          ? { fileName: files[index].name, status: "failed", error: result.error }
+          : { fileName: files[index].name, status: "imported", activity: result.activity, packedStream: result.packedStream }
+      )), settings.timezone);
+      setResults(saved.results);
+      setIncomplete(saved.incomplete);
+      setTracksSaved(saved.tracksSaved);
+      onImported(saved.results.filter(r => r.status === "imported").map(r => r.activity!));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error importing files:", err);
+      setResults(files.map(f => ({
+        fileName: f.name,
+        status: "failed",
+        error: err instanceof Error ? err.message : "Import failed",
+      })));
+    } finally {
+      abortRef.current = null;
+      setImporting(false);
+      setSaving(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!importing) handleFiles(e.dataTransfer.files);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (importing) return;
+    setOpen(value);
+    if (!value) setResults(null);
+  };
+
+  const counts = results?.reduce((acc, r) => {
+    acc[r.status]++;
+    return acc;
+  }, { imported: 0, duplicate: 0, failed: 0 } as Record<FileImportStatus, number>);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Upload Activities</DialogTitle>
+          <DialogDescription>
+            Drop one or more .gpx, .tcx or .fit files to add them to your activities.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={TRACK_FILE_ACCEPT}
+          multiple
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            // Reset input so same files can be re-uploaded
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => !importing && inputRef.current?.click()}
+          className={cn(
+            "flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors cursor-pointer",
+            dragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50",
+            importing && "cursor-wait opacity-70"
+          )}
+        >
+          {saving ? (
+            <>
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              <p className="text-sm text-muted-foreground">Saving activities...</p>
+            </>
+          ) : importing ? (
+            <ParseProgressBar
+              label="Parsing files..."
+              progress={progress}
+              unit="files"
+              onCancel={() => abortRef.current?.abort()}
+              className="w-full"
+            />
+          ) : (
+            <>
+              <Upload className="w-8 h-8 text-muted-foreground" />
+              <p className="text-sm font-medium text-foreground">Drag files here or click to browse</p>
+              <p className="text-xs text-muted-foreground">.gpx, .tcx and .fit are supported</p>
+            </>
+          )}
+        </div>
+
+        {results && counts && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {counts.imported} imported, {counts.duplicate} duplicate, {counts.failed} failed
+            </p>
+            {incomplete && (
+              <p className="text-sm text-destructive">
+                The activities were saved, but the import wasn't fully recorded. It is marked incomplete in Imports.
+              </p>
+            )}
+            {!tracksSaved && (
+              <p className="text-sm text-destructive">
+                Recorded tracks could not be saved, so routes, splits and records are missing for these activities.
+              </p>
+            )}
+            <div className="max-h-64 overflow-y-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result, index) => (
+                    <TableRow key={`${result.fileName}-${index}`}>
+                      <TableCell className="font-medium break-all">{result.fileName}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant[result.status]} className="capitalize">
+                          {result.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {result.error ??
+                          (result.activity
+                            ? `${result.activity.name} · ${formatDistance(result.activity.distanceKm, 2)}`
+                            : "-")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+            {results ? "Done" : "Cancel"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
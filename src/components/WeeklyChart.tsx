@@ -1,5 +1,6 @@
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from "recharts";
 import { WeekData } from "@/lib/parseActivities";
+import { useUnits } from "@/hooks/useUnits";
 import { useState } from "react";
 
 interface WeeklyChartProps {
@@ -9,11 +10,14 @@ interface WeeklyChartProps {
 
 export function WeeklyChart({ weeks, visibleWeeks = 52 }: WeeklyChartProps) {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const { distanceUnit, convertDistance, formatDistance } = useUnits();
   
   // Show last N weeks
   const displayWeeks = weeks.slice(-visibleWeeks).map((w, index) => ({
     ...w,
     shortLabel: w.weekStart.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+    // Bar height in the user's distance unit
+    distance: convertDistance(w.totalKm),
     index,
   }));
 
@@ -26,7 +30,7 @@ export function WeeklyChart({ weeks, visibleWeeks = 52 }: WeeklyChartProps) {
         <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
           <p className="text-sm font-medium text-foreground mb-1">{data.weekLabel}</p>
           <p className="text-lg font-display font-bold text-primary">
-            {data.totalKm.toFixed(1)} km
+            {formatDistance(data.totalKm)}
           </p>
           <p className="text-xs text-muted-foreground mt-1">
             {data.activityCount} {data.activityCount === 1 ? 'activity' : 'activities'}
@@ -65,7 +69,7 @@ export function WeeklyChart({ weeks, visibleWeeks = 52 }: WeeklyChartProps) {
               tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
               tickLine={false}
               axisLine={false}
-              tickFormatter={(value) => `${value} km`}
+              tickFormatter={(value) => `${value} ${distanceUnit}`}
               width={60}
             />
             <Tooltip 
@@ -73,7 +77,7 @@ export function WeeklyChart({ weeks, visibleWeeks = 52 }: WeeklyChartProps) {
               cursor={{ fill: 'hsl(var(--muted) / 0.3)' }}
             />
             <Bar 
-              dataKey="totalKm" 
+              dataKey="distance" 
               radius={[4, 4, 0, 0]}
               onMouseEnter={(_, index) => setHoveredIndex(index)}
             >
@@ -0,0 +1,58 @@
+import { useEffect, useState, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { SettingsContext } from "@/hooks/useSettings";
+import { DEFAULT_SETTINGS, fromSettingsRow, toSettingsRow, UserSettings } from "@/lib/settings";
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      if (!user) {
+        setSettings(DEFAULT_SETTINGS);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("user_settings")
+        .select("*")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching settings:", error);
+      }
+
+      setSettings(fromSettingsRow(data));
+      setLoading(false);
+    };
+
+    fetchSettings();
+  }, [user]);
+
+  const updateSettings = async (changes: Partial<UserSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    if (!user) return { error: null };
+
+    const { error } = await supabase
+      .from("user_settings")
+      .upsert(toSettingsRow(next, user.id), { onConflict: "user_id" });
+
+    if (error) {
+      console.error("Error saving settings:", error);
+    }
+    return { error };
+  };
+
+  return (
+    <SettingsContext.Provider value={{ settings, loading, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
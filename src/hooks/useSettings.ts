@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+import { UserSettings } from "@/lib/settings";
+
+export interface SettingsContextType {
+  settings: UserSettings;
+  loading: boolean;
+  updateSettings: (changes: Partial<UserSettings>) => Promise<{ error: Error | null }>;
+}
+
+export const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error("useSettings must be used within a SettingsProvider");
+  }
+  return context;
+}
@@ -0,0 +1,30 @@
+import { useSettings } from "@/hooks/useSettings";
+import {
+  convertDistance,
+  convertElevation,
+  formatDistance,
+  formatElevation,
+  formatPace,
+  paceSeconds,
+  toKilometers,
+  toMeters,
+} from "@/lib/units";
+
+// Unit conversions and formatters bound to the user's preferred units
+export function useUnits() {
+  const { settings } = useSettings();
+  const { distanceUnit, elevationUnit } = settings;
+
+  return {
+    distanceUnit,
+    elevationUnit,
+    convertDistance: (km: number) => convertDistance(km, distanceUnit),
+    convertElevation: (meters: number) => convertElevation(meters, elevationUnit),
+    toKilometers: (value: number) => toKilometers(value, distanceUnit),
+    toMeters: (value: number) => toMeters(value, elevationUnit),
+    formatDistance: (km: number, decimals?: number) => formatDistance(km, distanceUnit, decimals),
+    formatElevation: (meters: number) => formatElevation(meters, elevationUnit),
+    paceSeconds: (seconds: number, km: number) => paceSeconds(seconds, km, distanceUnit),
+    formatPace: (seconds: number, km: number) => formatPace(seconds, km, distanceUnit),
+  };
+}
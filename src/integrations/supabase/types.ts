@@ -17,45 +17,308 @@ export type Database = {
       activities: {
         Row: {
           activity_date: string
+          activity_type: string
+          avg_cadence: number | null
           avg_heart_rate: number | null
+          avg_power: number | null
           created_at: string
           distance_km: number
+          edited_at: string | null
           elapsed_time: number
           elevation_gain: number | null
           id: string
+          import_id: string | null
+          max_cadence: number | null
           max_heart_rate: number | null
           moving_time: number
           name: string
+          original_values: Json | null
           strava_id: string
           user_id: string
+          utc_offset_minutes: number | null
         }
         Insert: {
           activity_date: string
+          activity_type?: string
+          avg_cadence?: number | null
           avg_heart_rate?: number | null
+          avg_power?: number | null
           created_at?: string
           distance_km: number
+          edited_at?: string | null
           elapsed_time: number
           elevation_gain?: number | null
           id?: string
+          import_id?: string | null
+          max_cadence?: number | null
           max_heart_rate?: number | null
           moving_time: number
           name: string
+          original_values?: Json | null
           strava_id: string
           user_id: string
+          utc_offset_minutes?: number | null
         }
         Update: {
           activity_date?: string
+          activity_type?: string
+          avg_cadence?: number | null
           avg_heart_rate?: number | null
+          avg_power?: number | null
           created_at?: string
           distance_km?: number
+          edited_at?: string | null
           elapsed_time?: number
           elevation_gain?: number | null
           id?: string
+          import_id?: string | null
+          max_cadence?: number | null
           max_heart_rate?: number | null
           moving_time?: number
           name?: string
+          original_values?: Json | null
           strava_id?: string
           user_id?: string
+          utc_offset_minutes?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activities_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      activity_streams: {
+        Row: {
+          activity_id: string
+          channels: string[]
+          created_at: string
+          data: string
+          id: string
+          laps: Json
+          point_count: number
+          user_id: string
+        }
+        Insert: {
+          activity_id: string
+          channels?: string[]
+          created_at?: string
+          data: string
+          id?: string
+          laps?: Json
+          point_count: number
+          user_id: string
+        }
+        Update: {
+          activity_id?: string
+          channels?: string[]
+          created_at?: string
+          data?: string
+          id?: string
+          laps?: Json
+          point_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_streams_activity_id_fkey"
+            columns: ["activity_id"]
+            isOneToOne: true
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      duplicate_dismissals: {
+        Row: {
+          activity_id: string
+          created_at: string
+          id: string
+          other_activity_id: string
+          user_id: string
+        }
+        Insert: {
+          activity_id: string
+          created_at?: string
+          id?: string
+          other_activity_id: string
+          user_id: string
+        }
+        Update: {
+          activity_id?: string
+          created_at?: string
+          id?: string
+          other_activity_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_dismissals_activity_id_fkey"
+            columns: ["activity_id"]
+            isOneToOne: false
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_dismissals_other_activity_id_fkey"
+            columns: ["other_activity_id"]
+            isOneToOne: false
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_changes: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          import_id: string
+          previous: Json | null
+          strava_id: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          import_id: string
+          previous?: Json | null
+          strava_id: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          import_id?: string
+          previous?: Json | null
+          strava_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_changes_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      imports: {
+        Row: {
+          created_at: string
+          deleted_count: number
+          failed_at: string | null
+          file_name: string
+          id: string
+          inserted_count: number
+          rolled_back_at: string | null
+          skipped_count: number
+          source_type: string
+          updated_count: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deleted_count?: number
+          failed_at?: string | null
+          file_name: string
+          id?: string
+          inserted_count?: number
+          rolled_back_at?: string | null
+          skipped_count?: number
+          source_type: string
+          updated_count?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deleted_count?: number
+          failed_at?: string | null
+          file_name?: string
+          id?: string
+          inserted_count?: number
+          rolled_back_at?: string | null
+          skipped_count?: number
+          source_type?: string
+          updated_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      personal_records: {
+        Row: {
+          achieved_at: string
+          activity_id: string
+          created_at: string
+          distance_key: string
+          elapsed_time: number
+          id: string
+          start_offset: number
+          user_id: string
+        }
+        Insert: {
+          achieved_at: string
+          activity_id: string
+          created_at?: string
+          distance_key: string
+          elapsed_time: number
+          id?: string
+          start_offset?: number
+          user_id: string
+        }
+        Update: {
+          achieved_at?: string
+          activity_id?: string
+          created_at?: string
+          distance_key?: string
+          elapsed_time?: number
+          id?: string
+          start_offset?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_records_activity_id_fkey"
+            columns: ["activity_id"]
+            isOneToOne: false
+            referencedRelation: "activities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      race_results: {
+        Row: {
+          created_at: string
+          distance_meters: number
+          elapsed_time: number
+          id: string
+          name: string
+          race_date: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          distance_meters: number
+          elapsed_time: number
+          id?: string
+          name: string
+          race_date: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          distance_meters?: number
+          elapsed_time?: number
+          id?: string
+          name?: string
+          race_date?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -80,6 +343,51 @@ export type Database = {
         }
         Relationships: []
       }
+      user_settings: {
+        Row: {
+          created_at: string
+          default_preset: string
+          display_name: string | null
+          distance_unit: string
+          elevation_unit: string
+          id: string
+          max_heart_rate: number | null
+          resting_heart_rate: number | null
+          timezone: string | null
+          updated_at: string
+          user_id: string
+          week_start_day: number
+        }
+        Insert: {
+          created_at?: string
+          default_preset?: string
+          display_name?: string | null
+          distance_unit?: string
+          elevation_unit?: string
+          id?: string
+          max_heart_rate?: number | null
+          resting_heart_rate?: number | null
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+          week_start_day?: number
+        }
+        Update: {
+          created_at?: string
+          default_preset?: string
+          display_name?: string | null
+          distance_unit?: string
+          elevation_unit?: string
+          id?: string
+          max_heart_rate?: number | null
+          resting_heart_rate?: number | null
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+          week_start_day?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { ActivityInput } from "./activityForm";
+import { loadActivityStream } from "./activityStreams";
+import { saveBestEfforts } from "./personalRecords";
+
+type ActivityRow = Tables<"activities">;
+
+// Columns a user can correct by hand
+const EDITABLE_FIELDS = [
+  "name",
+  "activity_date",
+  "activity_type",
+  "distance_km",
+  "moving_time",
+  "elapsed_time",
+  "elevation_gain",
+  "avg_heart_rate",
+  "max_heart_rate",
+] as const;
+
+export type EditableField = typeof EDITABLE_FIELDS[number];
+
+export type OriginalValues = Pick<ActivityRow, EditableField>;
+
+// The values an activity had before its first edit, or null if never edited
+export function getOriginalValues(row: ActivityRow): OriginalValues | null {
+  return row.original_values as unknown as OriginalValues | null;
+}
+
+// The instant for an edited wall-clock start, kept in the timezone the
+// activity was recorded in
+function toInstant(start: Date, utcOffsetMinutes: number | null): Date {
+  if (utcOffsetMinutes === null) return start;
+  const wallClock = Date.UTC(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate(),
+    start.getHours(),
+    start.getMinutes(),
+    start.getSeconds()
+  );
+  return new Date(wallClock - utcOffsetMinutes * 60 * 1000);
+}
+
+// Best efforts carry the activity's date and only exist for runs, so they are
+// found again from the stored stream when an edit changes either
+async function refreshBestEfforts(userId: string, before: ActivityRow, after: ActivityRow): Promise<void> {
+  const sameDate = new Date(before.activity_date).getTime() === new Date(after.activity_date).getTime();
+  if (sameDate && before.activity_type === after.activity_type) return;
+
+  // The edit is saved either way; stale records are better than a failed edit
+  try {
+    const track = await loadActivityStream(after.id);
+    if (!track) return;
+    await saveBestEfforts(userId, [
+      { id: after.id, type: after.activity_type, date: after.activity_date, stream: track.stream },
+    ]);
+  } catch (err) {
+    console.error("Error updating personal records:", err);
+  }
+}
+
+// Saves hand corrections to an activity. The first edit keeps the values it
+// replaced in original_values; later edits leave them alone.
+export async function updateActivity(
+  userId: string,
+  row: ActivityRow,
+  input: ActivityInput
+): Promise<ActivityRow> {
+  const original = getOriginalValues(row)
+    ?? Object.fromEntries(EDITABLE_FIELDS.map(field => [field, row[field]])) as OriginalValues;
+
+  const changes: TablesUpdate<"activities"> = {
+    name: input.name,
+    activity_date: toInstant(input.start, row.utc_offset_minutes).toISOString(),
+    activity_type: input.type,
+    distance_km: input.distanceKm,
+    moving_time: input.movingTime,
+    elapsed_time: input.elapsedTime,
+    elevation_gain: input.elevationGain,
+    avg_heart_rate: input.avgHeartRate,
+    max_heart_rate: input.maxHeartRate,
+    edited_at: new Date().toISOString(),
+    original_values: original as unknown as Json,
+    // No longer what the import wrote, so rolling that import back leaves it alone
+    import_id: null,
+  };
+
+  const { data, error } = await supabase
+    .from("activities")
+    .update(changes)
+    .eq("id", row.id)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  await refreshBestEfforts(userId, row, data);
+  return data;
+}
+
+// Puts an edited activity back to the values it had before it was edited
+export async function restoreOriginalValues(userId: string, row: ActivityRow): Promise<ActivityRow> {
+  const original = getOriginalValues(row);
+  if (!original) return row;
+
+  const { data, error } = await supabase
+    .from("activities")
+    .update({ ...original, edited_at: null, original_values: null })
+    .eq("id", row.id)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  await refreshBestEfforts(userId, row, data);
+  return data;
+}
@@ -0,0 +1,131 @@
+// Form values for entering or correcting an activity by hand. Inputs are
+// strings in the user's units; fromActivityForm converts them for storage.
+import { z } from "zod";
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { toWallClock } from "./parseDates";
+import { convertDistance, convertElevation, toKilometers, toMeters, UnitPreferences } from "./units";
+
+export interface ActivityInput {
+  // Wall-clock start time, read from the Date's local fields
+  start: Date;
+  name: string;
+  type: string;
+  distanceKm: number;
+  movingTime: number;
+  elapsedTime: number;
+  elevationGain: number | null;
+  avgHeartRate: number | null;
+  maxHeartRate: number | null;
+}
+
+// Reads "45", "45:30" or "1:02:30" (minutes, mm:ss or h:mm:ss) as seconds
+export function parseDuration(text: string): number | null {
+  const parts = text.trim().split(":");
+  if (parts.length > 3 || parts.some(p => !/^\d+$/.test(p))) return null;
+
+  const [seconds = 0, minutes = 0, hours = 0] = parts.length === 1
+    ? [0, Number(parts[0])]
+    : parts.map(Number).reverse();
+  if (parts.length > 1 && seconds > 59) return null;
+  if (parts.length > 2 && minutes > 59) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Seconds as "h:mm:ss", or "mm:ss" under an hour, for editing
+export function formatDurationInput(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.round(seconds % 60);
+  const mmss = `${String(minutes).padStart(hours > 0 ? 2 : 1, "0")}:${String(secs).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+// Blank, or a number within range
+const optionalNumber = (min: number, max: number, message: string) =>
+  z.string().trim().refine(v => v === "" || (Number(v) >= min && Number(v) <= max), message);
+
+const optionalHeartRate = optionalNumber(30, 250, "Enter a heart rate between 30 and 250");
+
+const isBlank = (value: string) => value.trim() === "";
+
+export const activityFormSchema = z
+  .object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date"),
+    time: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Enter a start time"),
+    name: z.string().trim().min(1, "Give the activity a name").max(200, "Keep the name under 200 characters"),
+    type: z.string().min(1, "Pick a type"),
+    distance: z.string().trim().refine(v => Number(v) > 0 && Number(v) < 1000, "Enter a distance"),
+    duration: z.string().refine(v => (parseDuration(v) ?? 0) > 0, "Use minutes, mm:ss or h:mm:ss"),
+    // Defaults to the duration when left blank
+    elapsed: z.string().refine(v => isBlank(v) || (parseDuration(v) ?? 0) > 0, "Use minutes, mm:ss or h:mm:ss"),
+    elevation: optionalNumber(0, 30000, "Enter a positive elevation gain"),
+    avgHeartRate: optionalHeartRate,
+    maxHeartRate: optionalHeartRate,
+  })
+  .refine(
+    v => isBlank(v.elapsed) || (parseDuration(v.elapsed) ?? 0) >= (parseDuration(v.duration) ?? 0),
+    { message: "Elapsed time can't be shorter than moving time", path: ["elapsed"] }
+  )
+  .refine(
+    v => isBlank(v.avgHeartRate) || isBlank(v.maxHeartRate) || Number(v.avgHeartRate) <= Number(v.maxHeartRate),
+    { message: "Average heart rate can't be above max", path: ["avgHeartRate"] }
+  );
+
+export type ActivityFormValues = z.infer<typeof activityFormSchema>;
+
+const optionalValue = (value: string): number | null => (isBlank(value) ? null : Number(value));
+
+// Trims trailing zeros so 10.00 shows as "10"
+const formatNumberInput = (value: number, decimals: number) => String(Number(value.toFixed(decimals)));
+
+export function emptyActivityForm(now = new Date()): ActivityFormValues {
+  return {
+    date: format(now, "yyyy-MM-dd"),
+    time: format(now, "HH:mm"),
+    name: "",
+    type: "Run",
+    distance: "",
+    duration: "",
+    elapsed: "",
+    elevation: "",
+    avgHeartRate: "",
+    maxHeartRate: "",
+  };
+}
+
+// A saved activity as form values, with its start time where it was recorded
+export function toActivityForm(row: Tables<"activities">, units: UnitPreferences): ActivityFormValues {
+  const start = toWallClock(new Date(row.activity_date), row.utc_offset_minutes);
+  return {
+    date: format(start, "yyyy-MM-dd"),
+    time: format(start, start.getSeconds() > 0 ? "HH:mm:ss" : "HH:mm"),
+    name: row.name,
+    type: row.activity_type,
+    distance: formatNumberInput(convertDistance(Number(row.distance_km), units.distanceUnit), 2),
+    duration: formatDurationInput(row.moving_time),
+    elapsed: formatDurationInput(row.elapsed_time),
+    elevation: row.elevation_gain === null
+      ? ""
+      : formatNumberInput(convertElevation(Number(row.elevation_gain), units.elevationUnit), 0),
+    avgHeartRate: row.avg_heart_rate?.toString() ?? "",
+    maxHeartRate: row.max_heart_rate?.toString() ?? "",
+  };
+}
+
+// Validated form values in stored units
+export function fromActivityForm(values: ActivityFormValues, units: UnitPreferences): ActivityInput {
+  const movingTime = parseDuration(values.duration)!;
+  const elevation = optionalValue(values.elevation);
+  return {
+    start: new Date(`${values.date}T${values.time}`),
+    name: values.name.trim(),
+    type: values.type,
+    distanceKm: toKilometers(Number(values.distance), units.distanceUnit),
+    movingTime,
+    elapsedTime: parseDuration(values.elapsed) ?? movingTime,
+    elevationGain: elevation === null ? null : toMeters(elevation, units.elevationUnit),
+    avgHeartRate: optionalValue(values.avgHeartRate),
+    maxHeartRate: optionalValue(values.maxHeartRate),
+  };
+}
@@ -0,0 +1,61 @@
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { Activity } from "./parseActivities";
+import { utcOffsetIn } from "./parseDates";
+
+export function toActivityRow(
+  activity: Activity,
+  userId: string,
+  timeZone?: string | null
+): TablesInsert<"activities"> {
+  return {
+    user_id: userId,
+    strava_id: activity.id,
+    activity_date: activity.date.toISOString(),
+    // Files without timezone information are assumed to be from the user's
+    // chosen timezone, or else from where the upload happens
+    utc_offset_minutes: activity.utcOffsetMinutes ?? utcOffsetIn(activity.date, timeZone),
+    activity_type: activity.type,
+    name: activity.name,
+    distance_km: activity.distanceKm,
+    elapsed_time: activity.elapsedTime,
+    moving_time: activity.movingTime,
+    elevation_gain: activity.elevationGain ?? null,
+    avg_heart_rate: activity.avgHeartRate ?? null,
+    max_heart_rate: activity.maxHeartRate ?? null,
+    // Left out rather than null when unknown, so CSV-only imports leave values
+    // from an earlier track file alone
+    ...(activity.avgCadence != null && { avg_cadence: activity.avgCadence }),
+    ...(activity.maxCadence != null && { max_cadence: activity.maxCadence }),
+    ...(activity.avgPower != null && { avg_power: activity.avgPower }),
+  };
+}
+
+export function fromActivityRow(row: Tables<"activities">): Activity {
+  return {
+    id: row.strava_id,
+    rowId: row.id,
+    date: new Date(row.activity_date),
+    utcOffsetMinutes: row.utc_offset_minutes,
+    name: row.name,
+    type: row.activity_type,
+    distanceKm: Number(row.distance_km),
+    elapsedTime: row.elapsed_time,
+    movingTime: row.moving_time,
+    elevationGain: row.elevation_gain === null ? null : Number(row.elevation_gain),
+    avgHeartRate: row.avg_heart_rate ?? null,
+    maxHeartRate: row.max_heart_rate ?? null,
+    avgCadence: row.avg_cadence,
+    maxCadence: row.max_cadence,
+    avgPower: row.avg_power,
+  };
+}
+
+// Where a row came from, judging by the key each importer generates
+export function getActivitySource(stravaId: string): string {
+  if (/^\d+$/.test(stravaId)) return "Strava";
+  if (stravaId.startsWith("gpx-")) return "GPX";
+  if (stravaId.startsWith("tcx-")) return "TCX";
+  if (stravaId.startsWith("fit-")) return "FIT";
+  if (stravaId.startsWith("manual-")) return "Manual";
+  return "CSV";
+}
@@ -0,0 +1,103 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesInsert } from "@/integrations/supabase/types";
+import { chunk } from "./utils";
+import { ActivityLap, ActivityStream, PackedStream, unpackStream } from "./streams";
+import { saveBestEfforts } from "./personalRecords";
+
+const LOOKUP_BATCH_SIZE = 100;
+// Packed streams run to tens of KB each, so keep requests small
+const SAVE_BATCH_SIZE = 10;
+
+export interface StoredStream {
+  stream: ActivityStream;
+  laps: ActivityLap[];
+}
+
+// The recorded track of an activity, or null if it was saved without one
+export async function loadActivityStream(activityId: string): Promise<StoredStream | null> {
+  const { data, error } = await supabase
+    .from("activity_streams")
+    .select("data, laps")
+    .eq("activity_id", activityId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return { stream: await unpackStream(data.data), laps: data.laps as unknown as ActivityLap[] };
+}
+
+// Stores streams keyed by the activities' strava_id, replacing any already
+// saved, and updates the best efforts found in them. Activities that aren't
+// in the database (e.g. skipped) are ignored.
+export async function saveActivityStreams(
+  userId: string,
+  streams: Map<string, PackedStream>
+): Promise<void> {
+  const rows: TablesInsert<"activity_streams">[] = [];
+  const activities = new Map<string, { type: string; date: string }>();
+
+  for (const batch of chunk([...streams.keys()], LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("activities")
+      .select("id, strava_id, activity_type, activity_date")
+      .eq("user_id", userId)
+      .in("strava_id", batch);
+
+    if (error) throw error;
+    for (const { id, strava_id, activity_type, activity_date } of data ?? []) {
+      const stream = streams.get(strava_id)!;
+      activities.set(id, { type: activity_type, date: activity_date });
+      rows.push({
+        user_id: userId,
+        activity_id: id,
+        point_count: stream.pointCount,
+        channels: stream.channels,
+        data: stream.data,
+        laps: stream.laps as unknown as Json,
+      });
+    }
+  }
+
+  for (const batch of chunk(rows, SAVE_BATCH_SIZE)) {
+    const { error } = await supabase
+      .from("activity_streams")
+      .upsert(batch, { onConflict: "activity_id" });
+
+    if (error) throw error;
+
+    // Unpacked a batch at a time, as a whole archive's worth won't fit in memory
+    await saveBestEfforts(userId, await Promise.all(batch.map(async row => ({
+      id: row.activity_id,
+      ...activities.get(row.activity_id)!,
+      stream: await unpackStream(row.data),
+    }))));
+  }
+}
+
+// Hands an activity's stream and best efforts to another activity, e.g. the
+// one kept when merging duplicates, unless that one has a stream of its own.
+// Otherwise they'd be deleted along with the activity.
+export async function moveActivityStream(fromId: string, to: { id: string; date: string }): Promise<void> {
+  const { data, error } = await supabase
+    .from("activity_streams")
+    .select("id")
+    .eq("activity_id", to.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return;
+
+  const { error: streamError } = await supabase
+    .from("activity_streams")
+    .update({ activity_id: to.id })
+    .eq("activity_id", fromId);
+
+  if (streamError) throw streamError;
+
+  const { error: recordsError } = await supabase
+    .from("personal_records")
+    .update({ activity_id: to.id, achieved_at: to.date })
+    .eq("activity_id", fromId);
+
+  if (recordsError) throw recordsError;
+}
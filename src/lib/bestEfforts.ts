@@ -0,0 +1,143 @@
+// Fastest efforts over standard race distances, found in recorded streams,
+// and the personal records they add up to
+import { isRunType } from "./parseActivities";
+import { ActivityStream } from "./streams";
+
+// worldRecord is the men's road or track record in seconds, as a floor on
+// what a recorded effort can plausibly be
+export const BEST_EFFORT_DISTANCES = [
+  { key: "1k", label: "1K", meters: 1000, worldRecord: 131.96 },
+  { key: "5k", label: "5K", meters: 5000, worldRecord: 755.36 },
+  { key: "10k", label: "10K", meters: 10000, worldRecord: 1571 },
+  { key: "half", label: "Half Marathon", meters: 21097.5, worldRecord: 3451 },
+  { key: "marathon", label: "Marathon", meters: 42195, worldRecord: 7235 },
+] as const;
+
+// Faster than anyone runs even over a few seconds, so a GPS jump rather than
+// distance covered
+const MAX_SEGMENT_SPEED = 10;
+
+export type BestEffortKey = typeof BEST_EFFORT_DISTANCES[number]["key"];
+
+export interface BestEffort {
+  key: BestEffortKey;
+  // Seconds
+  time: number;
+  // Seconds from the start of the stream to the start of the effort
+  startOffset: number;
+}
+
+// A saved best effort, with the activity it came from
+export interface BestEffortRecord extends BestEffort {
+  activityId: string;
+  achievedAt: Date;
+}
+
+export function getBestEffortDistance(key: BestEffortKey) {
+  return BEST_EFFORT_DISTANCES.find(d => d.key === key)!;
+}
+
+// The world record at the nearest standard distance, scaled to meters with
+// Riegel's formula. Nothing faster is a real effort.
+export function fastestPlausibleTime(meters: number): number {
+  const nearest = BEST_EFFORT_DISTANCES.reduce((best, d) =>
+    Math.abs(Math.log(d.meters / meters)) < Math.abs(Math.log(best.meters / meters)) ? d : best
+  );
+  return nearest.worldRecord * Math.pow(meters / nearest.meters, 1.06);
+}
+
+// Best efforts only mean something for runs, not rides or walks
+export function hasBestEfforts(activityType: string): boolean {
+  return isRunType(activityType);
+}
+
+// Cumulative distance of the points that have one, leaving out segments
+// covered faster than MAX_SEGMENT_SPEED
+function plausibleDistance(stream: ActivityStream): { indexes: number[]; distance: number[] } {
+  const indexes: number[] = [];
+  const distance: number[] = [];
+
+  stream.distance.forEach((d, i) => {
+    if (d === null) return;
+    if (indexes.length === 0) {
+      indexes.push(i);
+      distance.push(d);
+      return;
+    }
+    const previous = indexes[indexes.length - 1];
+    const covered = d - stream.distance[previous]!;
+    const seconds = stream.time[i] - stream.time[previous];
+    const total = distance[distance.length - 1];
+    indexes.push(i);
+    distance.push(covered > 0 && covered <= seconds * MAX_SEGMENT_SPEED ? total + covered : total);
+  });
+
+  return { indexes, distance };
+}
+
+// Shortest time to cover meters anywhere in the stream. A window slides along
+// the points, with its start interpolated to exactly meters before each point.
+// Efforts faster than minTime are skipped as bad data.
+function fastestOver(
+  time: number[],
+  { indexes, distance }: { indexes: number[]; distance: number[] },
+  meters: number,
+  minTime: number
+): { time: number; startOffset: number } | null {
+  let best: { time: number; startOffset: number } | null = null;
+  let from = 0;
+
+  for (let to = 1; to < indexes.length; to++) {
+    const target = distance[to] - meters;
+    if (target < distance[0]) continue;
+
+    while (distance[from + 1] <= target) from++;
+    const da = distance[from];
+    const db = distance[from + 1];
+    const ta = time[indexes[from]];
+    const tb = time[indexes[from + 1]];
+    const t = db > da ? (target - da) / (db - da) : 0;
+    const start = ta + (tb - ta) * t;
+    const elapsed = time[indexes[to]] - start;
+
+    if (elapsed >= minTime && (!best || elapsed < best.time)) best = { time: elapsed, startOffset: start };
+  }
+
+  return best;
+}
+
+export function findBestEfforts(stream: ActivityStream): BestEffort[] {
+  const efforts: BestEffort[] = [];
+  const distance = plausibleDistance(stream);
+  for (const { key, meters, worldRecord } of BEST_EFFORT_DISTANCES) {
+    const fastest = fastestOver(stream.time, distance, meters, worldRecord);
+    if (fastest) {
+      efforts.push({ key, time: Math.round(fastest.time), startOffset: Math.round(fastest.startOffset) });
+    }
+  }
+  return efforts;
+}
+
+// Each effort that beat every earlier one at its distance, oldest first
+export function recordProgression(efforts: BestEffortRecord[], key: BestEffortKey): BestEffortRecord[] {
+  const progression: BestEffortRecord[] = [];
+  const sorted = efforts
+    .filter(e => e.key === key)
+    .sort((a, b) => a.achievedAt.getTime() - b.achievedAt.getTime());
+
+  for (const effort of sorted) {
+    const current = progression[progression.length - 1];
+    if (!current || effort.time < current.time) progression.push(effort);
+  }
+  return progression;
+}
+
+// The current record at each distance that has one
+export function currentRecords(efforts: BestEffortRecord[]): Map<BestEffortKey, BestEffortRecord> {
+  const records = new Map<BestEffortKey, BestEffortRecord>();
+  for (const { key } of BEST_EFFORT_DISTANCES) {
+    const progression = recordProgression(efforts, key);
+    if (progression.length > 0) records.set(key, progression[progression.length - 1]);
+  }
+  return records;
+}
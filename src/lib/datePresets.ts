@@ -0,0 +1,31 @@
+import { subMonths, startOfYear } from "date-fns";
+
+export type PresetKey = "3m" | "6m" | "ytd" | "1y" | "all";
+
+export const DATE_PRESETS: { key: PresetKey; label: string }[] = [
+  { key: "3m", label: "3 months" },
+  { key: "6m", label: "6 months" },
+  { key: "ytd", label: "Year to date" },
+  { key: "1y", label: "1 year" },
+  { key: "all", label: "All time" },
+];
+
+export function isPresetKey(value: unknown): value is PresetKey {
+  return DATE_PRESETS.some(preset => preset.key === value);
+}
+
+export function getPresetDates(preset: PresetKey): { start: Date | undefined; end: Date | undefined } {
+  const now = new Date();
+  switch (preset) {
+    case "3m":
+      return { start: subMonths(now, 3), end: now };
+    case "6m":
+      return { start: subMonths(now, 6), end: now };
+    case "ytd":
+      return { start: startOfYear(now), end: now };
+    case "1y":
+      return { start: subMonths(now, 12), end: now };
+    case "all":
+      return { start: undefined, end: undefined };
+  }
+}
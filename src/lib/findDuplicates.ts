@@ -0,0 +1,91 @@
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export interface DuplicateCandidate {
+  date: Date;
+  distanceKm: number;
+  elapsedTime: number;
+}
+
+export interface DuplicateOptions {
+  // Starts closer than this count as the same session even without overlap
+  startWindowMinutes: number;
+  // Relative and absolute distance tolerance; the larger one applies
+  distanceTolerance: number;
+  minDistanceToleranceKm: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  startWindowMinutes: 10,
+  distanceTolerance: 0.05,
+  minDistanceToleranceKm: 0.2,
+};
+
+// Dismissals are stored with the two activity ids in a fixed order
+export const duplicatePairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+export function isPossibleDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  options: Partial<DuplicateOptions> = {}
+): boolean {
+  const { startWindowMinutes, distanceTolerance, minDistanceToleranceKm } = {
+    ...DEFAULT_DUPLICATE_OPTIONS,
+    ...options,
+  };
+
+  const aStart = a.date.getTime();
+  const bStart = b.date.getTime();
+  const aEnd = aStart + a.elapsedTime * 1000;
+  const bEnd = bStart + b.elapsedTime * 1000;
+
+  const startsClose = Math.abs(aStart - bStart) <= startWindowMinutes * 60 * 1000;
+  const overlaps = aStart < bEnd && bStart < aEnd;
+  if (!startsClose && !overlaps) return false;
+
+  const tolerance = Math.max(
+    Math.max(a.distanceKm, b.distanceKm) * distanceTolerance,
+    minDistanceToleranceKm
+  );
+  return Math.abs(a.distanceKm - b.distanceKm) <= tolerance;
+}
+
+// Returns candidate pairs, each ordered by start time. Only nearby activities
+// are compared, so this stays fast on years of history.
+export function findPossibleDuplicates<T extends DuplicateCandidate>(
+  items: T[],
+  options: Partial<DuplicateOptions> = {}
+): [T, T][] {
+  const windowMs = (options.startWindowMinutes ?? DEFAULT_DUPLICATE_OPTIONS.startWindowMinutes) * 60 * 1000;
+  const sorted = [...items].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const pairs: [T, T][] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    const horizon = a.date.getTime() + Math.max(windowMs, a.elapsedTime * 1000);
+
+    for (let j = i + 1; j < sorted.length && sorted[j].date.getTime() <= horizon; j++) {
+      if (isPossibleDuplicate(a, sorted[j], options)) {
+        pairs.push([a, sorted[j]]);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+// Merging keeps the primary row and fills its gaps from the other copy
+export function mergeActivityRows(
+  primary: Tables<"activities">,
+  other: Tables<"activities">
+): TablesUpdate<"activities"> {
+  return {
+    elevation_gain: primary.elevation_gain || other.elevation_gain,
+    avg_heart_rate: primary.avg_heart_rate ?? other.avg_heart_rate,
+    max_heart_rate: primary.max_heart_rate ?? other.max_heart_rate,
+    avg_cadence: primary.avg_cadence ?? other.avg_cadence,
+    max_cadence: primary.max_cadence ?? other.max_cadence,
+    avg_power: primary.avg_power ?? other.avg_power,
+    moving_time: primary.moving_time || other.moving_time,
+    elapsed_time: primary.elapsed_time || other.elapsed_time,
+  };
+}
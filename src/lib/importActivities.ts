@@ -0,0 +1,394 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { chunk } from "./utils";
+import { Activity, CSVSkippedRow } from "./parseActivities";
+import { toActivityRow } from "./activityRows";
+import { toWallClock } from "./parseDates";
+import { createImport, describeImport, ImportBatch, ImportChange, markImportFailed, recordImportChanges } from "./importHistory";
+import { saveActivityStreams } from "./activityStreams";
+import { PackedStream } from "./streams";
+
+const UPSERT_BATCH_SIZE = 50;
+const LOOKUP_BATCH_SIZE = 100;
+
+export type FileImportStatus = "imported" | "duplicate" | "failed";
+
+export interface FileImportResult {
+  fileName: string;
+  status: FileImportStatus;
+  activity?: Activity;
+  packedStream?: PackedStream | null;
+  error?: string;
+}
+
+export async function fetchExistingRows(
+  userId: string,
+  ids: string[]
+): Promise<Map<string, Tables<"activities">>> {
+  const existing = new Map<string, Tables<"activities">>();
+
+  for (const batch of chunk(ids, LOOKUP_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("activities")
+      .select("*")
+      .eq("user_id", userId)
+      .in("strava_id", batch);
+
+    if (error) throw error;
+    data?.forEach(row => existing.set(row.strava_id, row));
+  }
+
+  return existing;
+}
+
+export async function findExistingIds(userId: string, ids: string[]): Promise<Set<string>> {
+  return new Set((await fetchExistingRows(userId, ids)).keys());
+}
+
+export async function saveActivityRows(rows: TablesInsert<"activities">[]): Promise<void> {
+  for (const batch of chunk(rows, UPSERT_BATCH_SIZE)) {
+    const { error } = await supabase
+      .from("activities")
+      .upsert(batch, { onConflict: "user_id,strava_id" });
+
+    if (error) throw error;
+  }
+}
+
+// Fields compared when an import would overwrite an existing row
+const DIFF_FIELDS = [
+  "name",
+  "activity_date",
+  "activity_type",
+  "distance_km",
+  "elapsed_time",
+  "moving_time",
+  "elevation_gain",
+  "avg_heart_rate",
+  "max_heart_rate",
+] as const;
+
+export type DiffField = typeof DIFF_FIELDS[number];
+
+export interface FieldChange {
+  field: DiffField;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface ImportOverwrite {
+  row: TablesInsert<"activities">;
+  previous: Tables<"activities">;
+  changes: FieldChange[];
+}
+
+export interface SkippedImport {
+  label: string;
+  reason: string;
+}
+
+export interface LegacyRekey {
+  from: string;
+  to: string;
+  previous: Tables<"activities">;
+}
+
+export interface ImportPreview {
+  newRows: TablesInsert<"activities">[];
+  overwrites: ImportOverwrite[];
+  unchanged: number;
+  skipped: SkippedImport[];
+  // Rows stored under the old "<ISO date>-<name>" key that move to their Strava ID
+  rekeys: LegacyRekey[];
+  // Extra legacy copies of an activity (e.g. from renaming it on Strava) to delete
+  legacyDuplicates: Tables<"activities">[];
+  // Recorded streams by strava_id, saved for each matching activity whether changed or not
+  streams: Map<string, PackedStream>;
+}
+
+// CSV imports used to be keyed by "<ISO date>-<name>" instead of the Strava activity ID
+const LEGACY_KEY = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z)-/;
+const STRAVA_ID = /^\d+$/;
+
+async function fetchLegacyRows(userId: string): Promise<Map<string, Tables<"activities">[]>> {
+  const { data, error } = await supabase
+    .from("activities")
+    .select("*")
+    .eq("user_id", userId)
+    .like("strava_id", "____-__-__T%Z-%");
+
+  if (error) throw error;
+
+  const byDate = new Map<string, Tables<"activities">[]>();
+  for (const row of data ?? []) {
+    const date = row.strava_id.match(LEGACY_KEY)?.[1];
+    if (!date) continue;
+    byDate.set(date, [...(byDate.get(date) ?? []), row]);
+  }
+  return byDate;
+}
+
+function sameValue(field: DiffField, a: string | number | null | undefined, b: string | number | null | undefined): boolean {
+  if (a == null || b == null) return a == b;
+  if (field === "activity_date") {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    // Numeric columns are stored with two decimals
+    return Math.abs(Number(a) - Number(b)) < 0.005;
+  }
+  return a === b;
+}
+
+export function diffActivityRow(
+  existing: Tables<"activities">,
+  incoming: TablesInsert<"activities">
+): FieldChange[] {
+  return DIFF_FIELDS
+    .filter(field => !sameValue(field, existing[field], incoming[field]))
+    .map(field => ({ field, from: existing[field], to: incoming[field] ?? null }));
+}
+
+// Splits rows into new, overwriting and unchanged without touching the database
+export async function buildImportPreview(
+  userId: string,
+  rows: TablesInsert<"activities">[],
+  skipped: CSVSkippedRow[] = [],
+  streams = new Map<string, PackedStream>()
+): Promise<ImportPreview> {
+  const preview: ImportPreview = {
+    newRows: [],
+    overwrites: [],
+    unchanged: 0,
+    skipped: skipped.map(s => ({ label: `Row ${s.row}`, reason: s.reason })),
+    rekeys: [],
+    legacyDuplicates: [],
+    streams,
+  };
+
+  // Upserting the same key twice in one statement fails, so keep the first occurrence
+  const seen = new Set<string>();
+  const uniqueRows = rows.filter(row => {
+    if (seen.has(row.strava_id)) {
+      preview.skipped.push({ label: row.name, reason: "Duplicate of an earlier row" });
+      return false;
+    }
+    seen.add(row.strava_id);
+    return true;
+  });
+
+  const existing = await fetchExistingRows(userId, uniqueRows.map(r => r.strava_id));
+  const legacyByDate = uniqueRows.some(r => STRAVA_ID.test(r.strava_id))
+    ? await fetchLegacyRows(userId)
+    : new Map<string, Tables<"activities">[]>();
+
+  for (const row of uniqueRows) {
+    let current = existing.get(row.strava_id);
+
+    // Reconcile rows saved under the legacy date-name key with this Strava ID.
+    // Older imports read the UTC export time as browser-local, so try that instant too.
+    const instant = new Date(row.activity_date);
+    const date = [instant, toWallClock(instant, 0)]
+      .map(d => d.toISOString())
+      .find(iso => legacyByDate.has(iso));
+    const legacy = STRAVA_ID.test(row.strava_id) && date ? legacyByDate.get(date) : undefined;
+    if (legacy) {
+      legacyByDate.delete(date);
+      let duplicates = legacy;
+      if (!current) {
+        // Prefer the copy whose name still matches; any others are stale renames
+        current = legacy.find(l => l.name === row.name) ?? legacy[0];
+        preview.rekeys.push({ from: current.strava_id, to: row.strava_id, previous: current });
+        duplicates = legacy.filter(l => l !== current);
+      }
+      preview.legacyDuplicates.push(...duplicates);
+    }
+
+    if (!current) {
+      preview.newRows.push(row);
+      continue;
+    }
+    const changes = diffActivityRow(current, row);
+    if (changes.length > 0 && current.edited_at) {
+      // Hand corrections win over the file; undo them from the Activities page to re-import
+      preview.skipped.push({ label: row.name, reason: "Edited by hand, keeping your changes" });
+    } else if (changes.length > 0) {
+      preview.overwrites.push({ row, previous: current, changes });
+    } else {
+      preview.unchanged++;
+    }
+  }
+
+  return preview;
+}
+
+export interface AppliedImport {
+  // Rows written; not counted when the import is incomplete
+  saved: number;
+  // Stopped after some changes were written; the import is marked as failed
+  incomplete: boolean;
+  // False when the activities were saved but their recorded tracks weren't
+  tracksSaved: boolean;
+}
+
+// Applies a confirmed preview as one recorded import: legacy keys first, so the
+// upsert updates those rows in place
+export async function applyImportPreview(
+  userId: string,
+  preview: ImportPreview,
+  batch: ImportBatch
+): Promise<AppliedImport> {
+  // Rows this import modifies, keyed by the ID they end up with
+  const previousRows = new Map<string, Tables<"activities">>();
+  preview.rekeys.forEach(r => previousRows.set(r.to, r.previous));
+  preview.overwrites.forEach(o => {
+    if (!previousRows.has(o.row.strava_id)) previousRows.set(o.row.strava_id, o.previous);
+  });
+
+  const importId = await createImport(userId, batch, {
+    inserted_count: preview.newRows.length,
+    updated_count: previousRows.size,
+    deleted_count: preview.legacyDuplicates.length,
+    skipped_count: preview.skipped.length,
+  });
+  const rows = [...preview.newRows, ...preview.overwrites.map(o => o.row)];
+
+  // Nothing below runs in one transaction, so a failure part way leaves the
+  // earlier writes in place. The import stays recorded, and can be rolled back.
+  try {
+    await recordImportChanges(userId, importId, [
+      ...preview.newRows.map((row): ImportChange => ({ stravaId: row.strava_id, action: "insert" })),
+      ...[...previousRows].map(([stravaId, previous]): ImportChange => ({ stravaId, action: "update", previous })),
+      ...preview.legacyDuplicates.map((row): ImportChange => ({ stravaId: row.strava_id, action: "delete", previous: row })),
+    ]);
+
+    // Re-keyed in batches by writing the rows back under their id; the
+    // previous values are what the preview just read
+    for (const batch of chunk(preview.rekeys, UPSERT_BATCH_SIZE)) {
+      const { error } = await supabase
+        .from("activities")
+        .upsert(
+          batch.map(({ to, previous }) => ({ ...previous, strava_id: to, import_id: importId })),
+          { onConflict: "id" }
+        );
+
+      if (error) throw error;
+    }
+
+    for (const keys of chunk(preview.legacyDuplicates.map(r => r.strava_id), LOOKUP_BATCH_SIZE)) {
+      const { error } = await supabase
+        .from("activities")
+        .delete()
+        .eq("user_id", userId)
+        .in("strava_id", keys);
+
+      if (error) throw error;
+    }
+
+    await saveActivityRows(rows.map(row => ({ ...row, import_id: importId })));
+  } catch (err) {
+    console.error("Error applying import:", err);
+    await markImportFailed(importId).catch(markError => console.error("Error marking import failed:", markError));
+    return { saved: 0, incomplete: true, tracksSaved: false };
+  }
+
+  // The activities are saved by now, so a failure here only loses their tracks
+  try {
+    await saveActivityStreams(userId, preview.streams);
+  } catch (err) {
+    console.error("Error saving activity streams:", err);
+    return { saved: rows.length, incomplete: false, tracksSaved: false };
+  }
+  return { saved: rows.length, incomplete: false, tracksSaved: true };
+}
+
+export interface SavedFiles {
+  results: FileImportResult[];
+  // The activities were saved but the import's history wasn't; the import is
+  // marked as failed
+  incomplete: boolean;
+  // False when the activities were saved but their recorded tracks weren't
+  tracksSaved: boolean;
+}
+
+// Marks parsed files whose activity already exists (or repeats within the batch)
+// as duplicates, then upserts the rest in batches as one recorded import.
+// A failed batch only fails its own files. Activities without a timezone are
+// placed in timeZone (or the browser's).
+export async function saveParsedFiles(
+  userId: string,
+  results: FileImportResult[],
+  timeZone?: string | null
+): Promise<SavedFiles> {
+  const parsed = results.filter(r => r.status === "imported");
+  const existing = await findExistingIds(userId, parsed.map(r => r.activity!.id));
+  const seen = new Set<string>();
+  const toSave: FileImportResult[] = [];
+
+  for (const result of parsed) {
+    const id = result.activity!.id;
+    if (existing.has(id) || seen.has(id)) {
+      result.status = "duplicate";
+    } else {
+      seen.add(id);
+      toSave.push(result);
+    }
+  }
+
+  if (toSave.length === 0) return { results, incomplete: false, tracksSaved: true };
+
+  const importId = await createImport(userId, describeImport(toSave.map(r => r.fileName)), {
+    inserted_count: toSave.length,
+    skipped_count: results.length - toSave.length,
+  });
+
+  for (const batch of chunk(toSave, UPSERT_BATCH_SIZE)) {
+    const { error } = await supabase
+      .from("activities")
+      .upsert(
+        batch.map(r => ({ ...toActivityRow(r.activity!, userId, timeZone), import_id: importId })),
+        { onConflict: "user_id,strava_id" }
+      );
+
+    if (error) {
+      console.error("Error saving activities:", error);
+      for (const result of batch) {
+        result.status = "failed";
+        result.error = error.message;
+      }
+    }
+  }
+
+  const saved = toSave.filter(r => r.status === "imported");
+  let incomplete = false;
+  try {
+    await recordImportChanges(
+      userId,
+      importId,
+      saved.map(r => ({ stravaId: r.activity!.id, action: "insert" }))
+    );
+    if (saved.length < toSave.length) {
+      const { error } = await supabase
+        .from("imports")
+        .update({ inserted_count: saved.length, skipped_count: results.length - saved.length })
+        .eq("id", importId);
+
+      if (error) throw error;
+    }
+  } catch (err) {
+    console.error("Error recording import:", err);
+    await markImportFailed(importId).catch(markError => console.error("Error marking import failed:", markError));
+    incomplete = true;
+  }
+
+  // The activities are saved by now, so a failure here only loses their tracks
+  try {
+    await saveActivityStreams(userId, new Map(
+      saved.filter(r => r.packedStream).map(r => [r.activity!.id, r.packedStream!])
+    ));
+  } catch (err) {
+    console.error("Error saving activity streams:", err);
+    return { results, incomplete, tracksSaved: false };
+  }
+  return { results, incomplete, tracksSaved: true };
+}
@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { chunk } from "./utils";
+
+const CHANGE_BATCH_SIZE = 100;
+
+export interface ImportBatch {
+  sourceType: string;
+  fileName: string;
+}
+
+export type ImportCounts = Pick<
+  TablesInsert<"imports">,
+  "inserted_count" | "updated_count" | "deleted_count" | "skipped_count"
+>;
+
+export type ImportChangeAction = "insert" | "update" | "delete";
+
+export interface ImportChange {
+  stravaId: string;
+  action: ImportChangeAction;
+  // The row before the import touched it; absent for inserts
+  previous?: Tables<"activities">;
+}
+
+export interface RollbackResult {
+  reverted: number;
+  // Rows changed again by a later import or edit, which rollback leaves alone
+  kept: number;
+}
+
+// Names a batch after its files, e.g. "csv" / "activities.csv" or "gpx" / "run.gpx and 4 more"
+export function describeImport(fileNames: string[]): ImportBatch {
+  const types = new Set(
+    fileNames.map(name => name.replace(/\.gz$/i, "").split(".").pop()?.toLowerCase() ?? "")
+  );
+  const sourceType = types.size === 1 ? [...types][0] : "mixed";
+  const fileName = fileNames.length > 1
+    ? `${fileNames[0]} and ${fileNames.length - 1} more`
+    : fileNames[0] ?? "";
+
+  return { sourceType, fileName };
+}
+
+export async function createImport(
+  userId: string,
+  batch: ImportBatch,
+  counts: ImportCounts
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("imports")
+    .insert({ user_id: userId, source_type: batch.sourceType, file_name: batch.fileName, ...counts })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Flags an import that stopped after writing only some of its changes
+export async function markImportFailed(importId: string): Promise<void> {
+  const { error } = await supabase
+    .from("imports")
+    .update({ failed_at: new Date().toISOString() })
+    .eq("id", importId);
+
+  if (error) throw error;
+}
+
+export async function recordImportChanges(
+  userId: string,
+  importId: string,
+  changes: ImportChange[]
+): Promise<void> {
+  const rows: TablesInsert<"import_changes">[] = changes.map(change => ({
+    import_id: importId,
+    user_id: userId,
+    strava_id: change.stravaId,
+    action: change.action,
+    previous: (change.previous ?? null) as unknown as Json,
+  }));
+
+  for (const batch of chunk(rows, CHANGE_BATCH_SIZE)) {
+    const { error } = await supabase.from("import_changes").insert(batch);
+    if (error) throw error;
+  }
+}
+
+// Undoes an import: removes the rows it inserted, restores the rows it overwrote
+// and re-creates the rows it deleted. Rows are only touched while this import
+// is still the last one to have written them.
+export async function rollbackImport(userId: string, importId: string): Promise<RollbackResult> {
+  const { data, error } = await supabase
+    .from("import_changes")
+    .select("*")
+    .eq("import_id", importId);
+
+  if (error) throw error;
+
+  const changes = data ?? [];
+  const result: RollbackResult = { reverted: 0, kept: 0 };
+  const count = (matched: number, total: number) => {
+    result.reverted += matched;
+    result.kept += total - matched;
+  };
+
+  const inserted = changes.filter(c => c.action === "insert").map(c => c.strava_id);
+  for (const batch of chunk(inserted, CHANGE_BATCH_SIZE)) {
+    const { data: removed, error: deleteError } = await supabase
+      .from("activities")
+      .delete()
+      .eq("user_id", userId)
+      .eq("import_id", importId)
+      .in("strava_id", batch)
+      .select("id");
+
+    if (deleteError) throw deleteError;
+    count(removed?.length ?? 0, batch.length);
+  }
+
+  for (const change of changes.filter(c => c.action === "update")) {
+    const { id, user_id, created_at, ...fields } = change.previous as unknown as Tables<"activities">;
+    const { data: restored, error: updateError } = await supabase
+      .from("activities")
+      .update(fields)
+      .eq("user_id", userId)
+      .eq("import_id", importId)
+      .eq("strava_id", change.strava_id)
+      .select("id");
+
+    if (updateError) throw updateError;
+    count(restored?.length ?? 0, 1);
+  }
+
+  const deleted = changes
+    .filter(c => c.action === "delete")
+    .map(c => c.previous as unknown as Tables<"activities">);
+  for (const batch of chunk(deleted, CHANGE_BATCH_SIZE)) {
+    const { data: recreated, error: insertError } = await supabase
+      .from("activities")
+      .upsert(batch, { onConflict: "user_id,strava_id", ignoreDuplicates: true })
+      .select("id");
+
+    if (insertError) throw insertError;
+    count(recreated?.length ?? 0, batch.length);
+  }
+
+  const { error: markError } = await supabase
+    .from("imports")
+    .update({ rolled_back_at: new Date().toISOString() })
+    .eq("id", importId);
+
+  if (markError) throw markError;
+  return result;
+}
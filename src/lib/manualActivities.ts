@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Activity } from "./parseActivities";
+import { fromActivityRow, toActivityRow } from "./activityRows";
+import { ActivityInput } from "./activityForm";
+import { fromWallClock } from "./parseDates";
+
+// Saves an activity entered by hand, e.g. a treadmill run without a watch.
+// The start time is taken to be in timeZone (or the browser's).
+export async function saveManualActivity(
+  userId: string,
+  input: ActivityInput,
+  timeZone?: string | null
+): Promise<Activity> {
+  const { date, utcOffsetMinutes } = fromWallClock(input.start, timeZone);
+  const activity: Activity = {
+    id: `manual-${crypto.randomUUID()}`,
+    date,
+    utcOffsetMinutes,
+    name: input.name,
+    type: input.type,
+    distanceKm: input.distanceKm,
+    elapsedTime: input.elapsedTime,
+    movingTime: input.movingTime,
+    // A blank elevation is stored as unknown rather than flat
+    elevationGain: input.elevationGain,
+    avgHeartRate: input.avgHeartRate,
+    maxHeartRate: input.maxHeartRate,
+  };
+
+  const { data, error } = await supabase
+    .from("activities")
+    .insert(toActivityRow(activity, userId, timeZone))
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromActivityRow(data);
+}
@@ -0,0 +1,67 @@
+export interface StreamPoint {
+  time: Date | null;
+  lat: number | null;
+  lon: number | null;
+  // Cumulative distance in meters, when the device recorded it
+  distance?: number | null;
+}
+
+export interface MovingTimeOptions {
+  // Segments slower than this (m/s) count as stopped
+  minSpeed: number;
+  // Gaps between points longer than this (seconds) count as paused
+  maxGapSeconds: number;
+}
+
+// ~33 min/km, slow enough that walking through a crowded aid station still counts
+export const DEFAULT_MOVING_TIME_OPTIONS: MovingTimeOptions = {
+  minSpeed: 0.5,
+  maxGapSeconds: 60,
+};
+
+const EARTH_RADIUS_M = 6371000;
+
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+}
+
+// Distance between consecutive points, preferring the device's own odometer
+export function segmentDistance(a: StreamPoint, b: StreamPoint): number | null {
+  if (a.distance != null && b.distance != null) {
+    return Math.max(0, b.distance - a.distance);
+  }
+  if (a.lat != null && a.lon != null && b.lat != null && b.lon != null) {
+    return haversineDistance(a.lat, a.lon, b.lat, b.lon);
+  }
+  return null;
+}
+
+export function computeMovingTime(
+  points: StreamPoint[],
+  options: Partial<MovingTimeOptions> = {}
+): number {
+  const { minSpeed, maxGapSeconds } = { ...DEFAULT_MOVING_TIME_OPTIONS, ...options };
+  let moving = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    if (!prev.time || !curr.time) continue;
+
+    const dt = (curr.time.getTime() - prev.time.getTime()) / 1000;
+    if (dt <= 0 || dt > maxGapSeconds) continue;
+
+    const distance = segmentDistance(prev, curr);
+    if (distance === null || distance / dt < minSpeed) continue;
+
+    moving += dt;
+  }
+
+  return Math.round(moving);
+}
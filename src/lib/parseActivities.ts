@@ -1,16 +1,41 @@
+import { DateFormat, detectDateFormat, parseAnyDate, parseDateWithFormat, toWallClock } from './parseDates';
+
 export interface Activity {
   id: string;
+  // Database row id, once saved
+  rowId?: string;
+  // UTC instant the activity started
   date: Date;
+  // Offset of the timezone it was recorded in; null when unknown
+  utcOffsetMinutes?: number | null;
   name: string;
   type: string;
   distanceKm: number;
   elapsedTime: number;
   movingTime: number;
-  elevationGain: number;
+  // Meters; null when unknown, e.g. a manual entry left blank
+  elevationGain: number | null;
   avgHeartRate: number | null;
   maxHeartRate: number | null;
+  avgCadence?: number | null;
+  maxCadence?: number | null;
+  avgPower?: number | null;
+  // Track file this activity was recorded in, e.g. "activities/123.fit.gz"
+  sourceFile?: string | null;
 }
 
+// Activity types shown in the type selectors, in Strava's naming
+export const ACTIVITY_TYPES = [
+  'Run',
+  'Trail Run',
+  'Virtual Run',
+  'Walk',
+  'Hike',
+  'Ride',
+  'Virtual Ride',
+  'Swim',
+] as const;
+
 export interface WeekData {
   weekStart: Date;
   weekEnd: Date;
@@ -20,39 +45,21 @@ export interface WeekData {
   activityCount: number;
 }
 
-function parseDate(dateStr: string): Date {
-  // Format: "27 Oct 2019, 11:02:43"
-  const months: Record<string, number> = {
-    'Jan': 0, 'Feb': 1, 'Mar': 2, 'Apr': 3, 'May': 4, 'Jun': 5,
-    'Jul': 6, 'Aug': 7, 'Sept': 8, 'Sep': 8, 'Oct': 9, 'Nov': 10, 'Dec': 11
-  };
-  
-  const match = dateStr.match(/(\d+)\s+(\w+)\s+(\d{4}),?\s*(\d{1,2}):(\d{2}):?(\d{2})?/);
-  if (!match) return new Date(dateStr);
-  
-  const [, day, monthStr, year, hours, minutes, seconds = '0'] = match;
-  const month = months[monthStr] ?? 0;
-  
-  return new Date(
-    parseInt(year),
-    month,
-    parseInt(day),
-    parseInt(hours),
-    parseInt(minutes),
-    parseInt(seconds)
-  );
+// The activity's start as wall-clock time where it was recorded, for calendar grouping
+export function getLocalDate(activity: Activity): Date {
+  return toWallClock(activity.date, activity.utcOffsetMinutes);
 }
 
-function getWeekStart(date: Date): Date {
+// weekStartDay counts from Sunday = 0, as in Date.getDay
+export function getWeekStart(date: Date, weekStartDay: number): Date {
   const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Monday start
-  d.setDate(diff);
+  const daysSinceStart = (d.getDay() - weekStartDay + 7) % 7;
+  d.setDate(d.getDate() - daysSinceStart);
   d.setHours(0, 0, 0, 0);
   return d;
 }
 
-function getWeekEnd(weekStart: Date): Date {
+export function getWeekEnd(weekStart: Date): Date {
   const d = new Date(weekStart);
   d.setDate(d.getDate() + 6);
   d.setHours(23, 59, 59, 999);
@@ -71,8 +78,117 @@ function formatWeekLabel(weekStart: Date): string {
   return `${startStr} - ${endStr} '${year.toString().slice(2)}`;
 }
 
-export function parseCSV(csvText: string): Activity[] {
-  // First, properly parse CSV handling multi-line quoted fields
+export type CSVField =
+  | 'id'
+  | 'date'
+  | 'name'
+  | 'type'
+  | 'distance'
+  | 'elapsedTime'
+  | 'movingTime'
+  | 'elevationGain'
+  | 'avgHeartRate'
+  | 'maxHeartRate'
+  | 'filename';
+
+// Known header names per field, including the localized Strava exports.
+// Strava repeats several headers (Distance, Elapsed Time, Max Heart Rate):
+// the summary block uses display units, the detailed block that follows it
+// uses SI units, so the last matching column wins.
+const CSV_COLUMN_ALIASES: Record<CSVField, string[]> = {
+  id: ['Activity ID', 'Aktivitäts-ID', "ID de l'activité", 'ID de actividad', 'ID attività', 'Activiteit-ID'],
+  date: ['Activity Date', 'Date', 'Datum der Aktivität', "Date de l'activité", 'Fecha de la actividad', "Data dell'attività", 'Activiteitsdatum'],
+  name: ['Activity Name', 'Name', 'Name der Aktivität', "Nom de l'activité", 'Nombre de la actividad', "Nome dell'attività", 'Activiteitsnaam'],
+  type: ['Activity Type', 'Type', 'Aktivitätsart', "Type d'activité", 'Tipo de actividad', 'Tipo di attività', 'Activiteitstype'],
+  distance: ['Distance', 'Distanz', 'Distancia', 'Distanza', 'Afstand'],
+  elapsedTime: ['Elapsed Time', 'Verstrichene Zeit', 'Temps écoulé', 'Tiempo transcurrido', 'Tempo trascorso', 'Verstreken tijd'],
+  movingTime: ['Moving Time', 'Bewegungszeit', 'Temps de déplacement', 'Tiempo en movimiento', 'Tempo in movimento', 'Beweegtijd'],
+  elevationGain: ['Elevation Gain', 'Höhenzunahme', 'Dénivelé positif', 'Desnivel positivo', 'Dislivello positivo', 'Hoogtewinst'],
+  avgHeartRate: ['Average Heart Rate', 'Durchschnittliche Herzfrequenz', 'Fréquence cardiaque moyenne', 'Frecuencia cardiaca media', 'Frequenza cardiaca media', 'Gemiddelde hartslag'],
+  maxHeartRate: ['Max Heart Rate', 'Maximale Herzfrequenz', 'Fréquence cardiaque max.', 'Frecuencia cardiaca máxima', 'Frequenza cardiaca massima', 'Max. hartslag'],
+  filename: ['Filename', 'Dateiname', 'Nom du fichier', 'Nombre de archivo', 'Nome file', 'Bestandsnaam'],
+};
+
+const REQUIRED_CSV_FIELDS: CSVField[] = ['date', 'distance'];
+
+export interface CSVColumnMatch {
+  field: CSVField;
+  header: string;
+  index: number;
+}
+
+export interface CSVColumnReport {
+  matched: CSVColumnMatch[];
+  missing: CSVField[];
+}
+
+export interface CSVSkippedRow {
+  // 1-based data row number, not counting the header
+  row: number;
+  reason: string;
+}
+
+export interface CSVParseResult {
+  activities: Activity[];
+  report: CSVColumnReport;
+  skipped: CSVSkippedRow[];
+  // Date layout shared by the whole file; null if rows mix layouts
+  dateFormat: DateFormat | null;
+  error?: undefined;
+}
+
+export interface CSVParseError {
+  activities?: undefined;
+  report: CSVColumnReport;
+  skipped?: undefined;
+  dateFormat?: undefined;
+  error: string;
+}
+
+export type CSVResult = CSVParseResult | CSVParseError;
+
+export interface ParseProgress {
+  // Rows (or files) parsed so far
+  rows: number;
+  // Share of the input consumed, from 0 to 1
+  fraction: number;
+}
+
+export type ProgressCallback = (progress: ParseProgress) => void;
+
+// Rows between progress reports, so reporting doesn't dominate parsing
+const PROGRESS_INTERVAL = 500;
+
+function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function resolveCSVColumns(headers: string[]): CSVColumnReport {
+  const normalized = headers.map(normalizeHeader);
+  const matched: CSVColumnMatch[] = [];
+  const missing: CSVField[] = [];
+
+  for (const field of Object.keys(CSV_COLUMN_ALIASES) as CSVField[]) {
+    const aliases = CSV_COLUMN_ALIASES[field].map(normalizeHeader);
+    let index = -1;
+    // Aliases are in priority order; within one alias the last column wins
+    for (const alias of aliases) {
+      index = normalized.lastIndexOf(alias);
+      if (index !== -1) break;
+    }
+
+    if (index === -1) {
+      missing.push(field);
+    } else {
+      matched.push({ field, header: headers[index], index });
+    }
+  }
+
+  return { matched, missing };
+}
+
+function parseCSVRecords(csvText: string, onProgress?: ProgressCallback): string[][] {
+  // Properly parse CSV handling multi-line quoted fields
   const records: string[][] = [];
   let currentRecord: string[] = [];
   let currentField = '';
@@ -93,6 +209,9 @@ export function parseCSV(csvText: string): Activity[] {
       currentRecord.push(currentField.trim());
       if (currentRecord.length > 1) {
         records.push(currentRecord);
+        if (records.length % PROGRESS_INTERVAL === 0) {
+          onProgress?.({ rows: records.length - 1, fraction: i / csvText.length });
+        }
       }
       currentRecord = [];
       currentField = '';
@@ -107,66 +226,117 @@ export function parseCSV(csvText: string): Activity[] {
       records.push(currentRecord);
     }
   }
+
+  return records;
+}
+
+export function parseCSV(csvText: string, onProgress?: ProgressCallback): CSVResult {
+  const records = parseCSVRecords(csvText, onProgress);
   
-  if (records.length === 0) return [];
+  if (records.length === 0) {
+    return { activities: [], report: { matched: [], missing: [] }, skipped: [], dateFormat: null };
+  }
   
   // First record is headers
-  const headers = records[0];
-  
-  // Find column indices
-  const idIdx = headers.findIndex(h => h.includes('Activity ID'));
-  const dateIdx = headers.findIndex(h => h.includes('Activity Date'));
-  const nameIdx = headers.findIndex(h => h.includes('Activity Name'));
-  const typeIdx = headers.findIndex(h => h.includes('Activity Type'));
-  
-  // Distance column (18th column based on the data structure, in meters)
-  const distanceIdx = 17;
-  const elapsedTimeIdx = 15;
-  const movingTimeIdx = 16;
-  const elevationIdx = 20;
-  const avgHRIdx = 31;
-  const maxHRIdx = 30;
+  const report = resolveCSVColumns(records[0]);
+
+  const missingRequired = REQUIRED_CSV_FIELDS.filter(f => report.missing.includes(f));
+  if (missingRequired.length > 0) {
+    return {
+      report,
+      error: `Missing required column${missingRequired.length > 1 ? 's' : ''}: ${missingRequired.join(', ')}`,
+    };
+  }
+
+  const columns = Object.fromEntries(report.matched.map(m => [m.field, m.index])) as Partial<Record<CSVField, number>>;
+  const value = (values: string[], field: CSVField): string | undefined => {
+    const idx = columns[field];
+    return idx === undefined ? undefined : values[idx];
+  };
   
+  // Dates are read in one layout per file, so "03/04" means the same month on every row
+  const dateFormat = detectDateFormat(records.slice(1).map(values => value(values, 'date') || ''));
+  const readDate = (text: string) => dateFormat ? parseDateWithFormat(text, dateFormat) : parseAnyDate(text);
+
   const activities: Activity[] = [];
+  const skipped: CSVSkippedRow[] = [];
   
   for (let i = 1; i < records.length; i++) {
     const values = records[i];
     
     // Skip if doesn't start with a valid activity ID (number)
-    const activityId = values[idIdx];
-    if (!activityId || !/^\d+$/.test(activityId)) continue;
+    const activityId = value(values, 'id');
+    if (columns.id !== undefined && (!activityId || !/^\d+$/.test(activityId))) {
+      skipped.push({ row: i, reason: 'Missing or invalid activity ID' });
+      continue;
+    }
     
-    // Only include "Run" activities
-    const activityType = values[typeIdx] || '';
-    if (activityType !== 'Run') continue;
+    const activityType = value(values, 'type') || 'Run';
     
-    const distanceMeters = parseFloat(values[distanceIdx]) || 0;
+    // Distance is in meters in the detailed Strava columns
+    const distanceMeters = parseFloat(value(values, 'distance')) || 0;
     const distanceKm = distanceMeters / 1000;
     
-    if (distanceKm <= 0) continue;
+    if (distanceKm <= 0) {
+      skipped.push({ row: i, reason: 'No distance recorded' });
+      continue;
+    }
+    
+    const date = readDate(value(values, 'date') || '');
+    if (!date) {
+      skipped.push({ row: i, reason: `Unrecognized date "${value(values, 'date') || ''}"` });
+      continue;
+    }
+    const name = value(values, 'name') || 'Unknown Activity';
     
     activities.push({
-      id: activityId,
-      date: parseDate(values[dateIdx] || ''),
-      name: values[nameIdx] || 'Unknown Activity',
+      id: activityId || `${date.toISOString()}-${name}`,
+      date,
+      name,
       type: activityType,
       distanceKm,
-      elapsedTime: parseFloat(values[elapsedTimeIdx]) || 0,
-      movingTime: parseFloat(values[movingTimeIdx]) || 0,
-      elevationGain: parseFloat(values[elevationIdx]) || 0,
-      avgHeartRate: parseFloat(values[avgHRIdx]) || null,
-      maxHeartRate: parseFloat(values[maxHRIdx]) || null,
+      elapsedTime: parseFloat(value(values, 'elapsedTime')) || 0,
+      movingTime: parseFloat(value(values, 'movingTime')) || 0,
+      elevationGain: parseFloat(value(values, 'elevationGain')) || 0,
+      avgHeartRate: parseFloat(value(values, 'avgHeartRate')) || null,
+      maxHeartRate: parseFloat(value(values, 'maxHeartRate')) || null,
+      sourceFile: value(values, 'filename') || null,
     });
   }
   
-  return activities.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return {
+    activities: activities.sort((a, b) => a.date.getTime() - b.date.getTime()),
+    report,
+    skipped,
+    dateFormat,
+  };
+}
+
+// Distinct types in selector order: known types first, then any others alphabetically
+export function getActivityTypes(types: string[]): string[] {
+  const present = new Set(types);
+  const known = ACTIVITY_TYPES.filter(t => present.has(t));
+  const other = [...present].filter(t => !(ACTIVITY_TYPES as readonly string[]).includes(t)).sort();
+  return [...known, ...other];
+}
+
+// Run, Trail Run, Virtual Run and the like
+export function isRunType(type: string): boolean {
+  return /run/i.test(type);
+}
+
+// An empty selection means every type is included
+export function filterByTypes(activities: Activity[], types: string[]): Activity[] {
+  if (types.length === 0) return activities;
+  return activities.filter(a => types.includes(a.type));
 }
 
-export function groupByWeek(activities: Activity[]): WeekData[] {
+// Weeks start on Monday unless another day is given (0 = Sunday)
+export function groupByWeek(activities: Activity[], weekStartDay = 1): WeekData[] {
   const weekMap = new Map<string, WeekData>();
   
   for (const activity of activities) {
-    const weekStart = getWeekStart(activity.date);
+    const weekStart = getWeekStart(getLocalDate(activity), weekStartDay);
     const key = weekStart.toISOString();
     
     if (!weekMap.has(key)) {
@@ -0,0 +1,251 @@
+// Date parsing for activity exports. Strava writes activity dates in UTC, in
+// a layout that depends on the account's language, e.g.
+//   "27 Oct 2019, 11:02:43"       (en-GB)
+//   "Oct 27, 2019, 11:02:43 AM"   (en-US)
+//   "27.10.2019, 11:02:43"        (de)
+//   "27 oct. 2019, 11:02:43"      (fr)
+// Each file is checked for one layout that fits all of its dates, so an
+// ambiguous "03/04/2020" is read the same way as the rest of the file.
+
+export type DateFormat =
+  | 'iso'
+  | 'day-month-name'
+  | 'month-name-day'
+  | 'day-month-year'
+  | 'month-day-year'
+  | 'year-month-day';
+
+// Tried in this order; the first one that reads every date in a file wins
+export const DATE_FORMATS: DateFormat[] = [
+  'iso',
+  'day-month-name',
+  'month-name-day',
+  'day-month-year',
+  'month-day-year',
+  'year-month-day',
+];
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  'iso': 'ISO 8601',
+  'day-month-name': 'day month year',
+  'month-name-day': 'month day, year',
+  'day-month-year': 'DD/MM/YYYY',
+  'month-day-year': 'MM/DD/YYYY',
+  'year-month-day': 'YYYY/MM/DD',
+};
+
+// Full month names in the languages Strava exports in
+const MONTH_NAMES: string[][] = [
+  ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+  ['januar', 'februar', 'marz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember'],
+  ['janvier', 'fevrier', 'mars', 'avril', 'mai', 'juin', 'juillet', 'aout', 'septembre', 'octobre', 'novembre', 'decembre'],
+  ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+  ['gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'],
+  ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'],
+  ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+];
+
+// Abbreviations that aren't a prefix of the full name
+const MONTH_ABBREVIATIONS: Record<string, number> = {
+  'janner': 0, // Austrian German
+  'mrt': 2, // Dutch
+  'setiembre': 8, // Latin American Spanish
+};
+
+function normalizeWord(word: string): string {
+  return word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\.$/, '').toLowerCase();
+}
+
+// Resolves a full or abbreviated month name in any supported language, or -1
+export function parseMonthName(word: string): number {
+  const token = normalizeWord(word);
+  if (token in MONTH_ABBREVIATIONS) return MONTH_ABBREVIATIONS[token];
+  if (token.length < 3) return -1;
+
+  let month = -1;
+  for (const names of MONTH_NAMES) {
+    const index = names.findIndex(name => name.startsWith(token));
+    if (index === -1) continue;
+    // "jui" could be juin or juillet
+    if (month !== -1 && month !== index) return -1;
+    month = index;
+  }
+  return month;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  // Explicit offset from the text, e.g. "+02:00"; otherwise the time is UTC
+  offsetMinutes: number;
+}
+
+// Optional time of day, allowing a word such as "at", "um" or "à" before it
+const TIME = String.raw`(?:,?\s*(?:[^\d\s]+\s+){0,2}(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?\s?m\.?)?)?`;
+const WORD = String.raw`([^\s\d.,]+)\.?`;
+
+const PATTERNS: Record<Exclude<DateFormat, 'iso'>, RegExp> = {
+  'day-month-name': new RegExp(String.raw`^(\d{1,2})\.?\s+(?:de\s+)?${WORD},?\s+(?:de\s+)?(\d{4})${TIME}$`, 'i'),
+  'month-name-day': new RegExp(String.raw`^${WORD}\s+(\d{1,2}),?\s+(\d{4})${TIME}$`, 'i'),
+  'day-month-year': new RegExp(String.raw`^(\d{1,2})[./-](\d{1,2})[./-](\d{4})${TIME}$`, 'i'),
+  'month-day-year': new RegExp(String.raw`^(\d{1,2})[./-](\d{1,2})[./-](\d{4})${TIME}$`, 'i'),
+  'year-month-day': new RegExp(String.raw`^(\d{4})[./-](\d{1,2})[./-](\d{1,2})${TIME}$`, 'i'),
+};
+
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+function toHours(hours: string | undefined, meridiem: string | undefined): number {
+  let value = parseInt(hours ?? '0', 10);
+  if (meridiem) {
+    if (value < 1 || value > 12) return NaN;
+    const pm = meridiem.toLowerCase().startsWith('p');
+    value = (value % 12) + (pm ? 12 : 0);
+  }
+  return value;
+}
+
+function parseOffset(offset: string | undefined): number {
+  if (!offset || offset.toUpperCase() === 'Z') return 0;
+  const sign = offset[0] === '-' ? -1 : 1;
+  const digits = offset.slice(1).replace(':', '');
+  return sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10));
+}
+
+function extractParts(text: string, format: DateFormat): DateParts | null {
+  if (format === 'iso') {
+    const m = text.match(ISO_PATTERN);
+    if (!m) return null;
+    return {
+      year: +m[1], month: +m[2] - 1, day: +m[3],
+      hours: +(m[4] ?? 0), minutes: +(m[5] ?? 0), seconds: +(m[6] ?? 0),
+      offsetMinutes: parseOffset(m[7]),
+    };
+  }
+
+  const m = text.match(PATTERNS[format]);
+  if (!m) return null;
+  const [, a, b, c, hours, minutes = '0', seconds = '0', meridiem] = m;
+  const time = {
+    hours: toHours(hours, meridiem),
+    minutes: parseInt(minutes, 10),
+    seconds: parseInt(seconds, 10),
+    offsetMinutes: 0,
+  };
+
+  switch (format) {
+    case 'day-month-name':
+      return { year: +c, month: parseMonthName(b), day: +a, ...time };
+    case 'month-name-day':
+      return { year: +c, month: parseMonthName(a), day: +b, ...time };
+    case 'day-month-year':
+      return { year: +c, month: +b - 1, day: +a, ...time };
+    case 'month-day-year':
+      return { year: +c, month: +a - 1, day: +b, ...time };
+    case 'year-month-day':
+      return { year: +a, month: +b - 1, day: +c, ...time };
+  }
+}
+
+function isValid(parts: DateParts): boolean {
+  const { year, month, day, hours, minutes, seconds } = parts;
+  if (month < 0 || month > 11 || hours > 23 || minutes > 59 || seconds > 59 || isNaN(hours)) return false;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return day >= 1 && day <= daysInMonth;
+}
+
+// Reads a date in the given layout as a UTC instant, or null if it doesn't fit
+export function parseDateWithFormat(text: string, format: DateFormat): Date | null {
+  const parts = extractParts(text.trim(), format);
+  if (!parts || !isValid(parts)) return null;
+
+  const { year, month, day, hours, minutes, seconds, offsetMinutes } = parts;
+  return new Date(Date.UTC(year, month, day, hours, minutes - offsetMinutes, seconds));
+}
+
+// Finds the first layout that reads every non-empty sample
+export function detectDateFormat(samples: string[]): DateFormat | null {
+  const values = samples.map(s => s.trim()).filter(Boolean);
+  if (values.length === 0) return null;
+  return DATE_FORMATS.find(format => values.every(v => parseDateWithFormat(v, format) !== null)) ?? null;
+}
+
+// Reads a single date of unknown layout, for files that mix several
+export function parseAnyDate(text: string): Date | null {
+  for (const format of DATE_FORMATS) {
+    const date = parseDateWithFormat(text, format);
+    if (date) return date;
+  }
+  return null;
+}
+
+// The browser's UTC offset at a given instant, used when a file doesn't say
+// which timezone an activity was recorded in
+export function browserUtcOffset(date: Date): number {
+  return -date.getTimezoneOffset();
+}
+
+// A named timezone's UTC offset at a given instant, e.g. +60 for Europe/Berlin
+// in winter. Without a zone this is the browser's offset.
+export function utcOffsetIn(date: Date, timeZone: string | null | undefined): number {
+  if (!timeZone) return browserUtcOffset(date);
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((wallClock - date.getTime()) / 60000);
+}
+
+// The instant at which a wall-clock time (the local fields of a Date, as from
+// a date input) happened in a timezone, and that zone's offset then. The
+// inverse of toWallClock.
+export function fromWallClock(
+  local: Date,
+  timeZone: string | null | undefined
+): { date: Date; utcOffsetMinutes: number } {
+  const wallClock = Date.UTC(
+    local.getFullYear(),
+    local.getMonth(),
+    local.getDate(),
+    local.getHours(),
+    local.getMinutes(),
+    local.getSeconds()
+  );
+  let utcOffsetMinutes = utcOffsetIn(new Date(wallClock), timeZone);
+  // Check again at the result, in case a DST change falls in between
+  utcOffsetMinutes = utcOffsetIn(new Date(wallClock - utcOffsetMinutes * 60 * 1000), timeZone);
+  return { date: new Date(wallClock - utcOffsetMinutes * 60 * 1000), utcOffsetMinutes };
+}
+
+// IANA timezones the browser knows, for picking one in settings
+export function supportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [Intl.DateTimeFormat().resolvedOptions().timeZone];
+}
+
+// Shifts an instant to a Date whose local fields show the wall-clock time at
+// the given UTC offset, so calendar code (getDay, startOfWeek, ...) buckets it
+// by the day it happened there. Without an offset the browser's zone is used.
+export function toWallClock(date: Date, utcOffsetMinutes: number | null | undefined): Date {
+  if (utcOffsetMinutes === null || utcOffsetMinutes === undefined) return date;
+  const shifted = new Date(date.getTime() + utcOffsetMinutes * 60 * 1000);
+  return new Date(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth(),
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes(),
+    shifted.getUTCSeconds()
+  );
+}
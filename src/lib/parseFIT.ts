@@ -0,0 +1,311 @@
+import { Activity } from "./parseActivities";
+import { GPXResult } from "./parseGPX";
+import { ActivityLap, buildStream } from "./streams";
+
+// Global message numbers from the FIT profile
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_ACTIVITY = 34;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_MS = 631065600000;
+
+const TIMESTAMP_FIELD = 253;
+
+type FITFields = Record<number, number>;
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  devDataSize: number;
+}
+
+export interface FITMessages {
+  sessions: FITFields[];
+  laps: FITFields[];
+  records: FITFields[];
+  activities: FITFields[];
+}
+
+// Base type number -> byte size and the "invalid" sentinel value
+const BASE_TYPES: Record<number, { size: number; invalid: number; read: (v: DataView, o: number, le: boolean) => number }> = {
+  0x00: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) }, // enum
+  0x01: { size: 1, invalid: 0x7f, read: (v, o) => v.getInt8(o) },
+  0x02: { size: 1, invalid: 0xff, read: (v, o) => v.getUint8(o) },
+  0x03: { size: 2, invalid: 0x7fff, read: (v, o, le) => v.getInt16(o, le) },
+  0x04: { size: 2, invalid: 0xffff, read: (v, o, le) => v.getUint16(o, le) },
+  0x05: { size: 4, invalid: 0x7fffffff, read: (v, o, le) => v.getInt32(o, le) },
+  0x06: { size: 4, invalid: 0xffffffff, read: (v, o, le) => v.getUint32(o, le) },
+  0x08: { size: 4, invalid: NaN, read: (v, o, le) => v.getFloat32(o, le) },
+  0x09: { size: 8, invalid: NaN, read: (v, o, le) => v.getFloat64(o, le) },
+  0x0a: { size: 1, invalid: 0x00, read: (v, o) => v.getUint8(o) }, // uint8z
+  0x0b: { size: 2, invalid: 0x0000, read: (v, o, le) => v.getUint16(o, le) },
+  0x0c: { size: 4, invalid: 0x00000000, read: (v, o, le) => v.getUint32(o, le) },
+};
+
+export function decodeFIT(buffer: ArrayBuffer): FITMessages {
+  const view = new DataView(buffer);
+  if (view.byteLength < 12) {
+    throw new Error("File too short");
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(
+    view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11)
+  );
+  if (signature !== ".FIT") {
+    throw new Error("Missing .FIT signature");
+  }
+
+  const messages: FITMessages = { sessions: [], laps: [], records: [], activities: [] };
+  const definitions = new Map<number, MessageDefinition>();
+  const end = Math.min(headerSize + dataSize, view.byteLength);
+  let offset = headerSize;
+  let lastTimestamp = 0;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+    let localType: number;
+    let timeOffset: number | null = null;
+
+    if (header & 0x80) {
+      // Compressed timestamp header: always a data message
+      localType = (header >> 5) & 0x03;
+      timeOffset = header & 0x1f;
+    } else {
+      localType = header & 0x0f;
+
+      if (header & 0x40) {
+        const hasDevData = (header & 0x20) !== 0;
+        const littleEndian = view.getUint8(offset + 1) === 0;
+        const globalNum = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = view.getUint8(offset + 4);
+        offset += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({
+            num: view.getUint8(offset),
+            size: view.getUint8(offset + 1),
+            baseType: view.getUint8(offset + 2) & 0x1f,
+          });
+          offset += 3;
+        }
+
+        let devDataSize = 0;
+        if (hasDevData) {
+          const devFieldCount = view.getUint8(offset++);
+          for (let i = 0; i < devFieldCount; i++) {
+            devDataSize += view.getUint8(offset + 1);
+            offset += 3;
+          }
+        }
+
+        definitions.set(localType, { globalNum, littleEndian, fields, devDataSize });
+        continue;
+      }
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error(`Data message without definition at byte ${offset - 1}`);
+    }
+
+    const values: FITFields = {};
+    for (const field of definition.fields) {
+      const baseType = BASE_TYPES[field.baseType];
+      // Only scalar fields are decoded; arrays and strings are skipped
+      if (baseType && baseType.size === field.size) {
+        const value = baseType.read(view, offset, definition.littleEndian);
+        if (value !== baseType.invalid && !Number.isNaN(value)) {
+          values[field.num] = value;
+        }
+      }
+      offset += field.size;
+    }
+    offset += definition.devDataSize;
+
+    if (values[TIMESTAMP_FIELD] !== undefined) {
+      lastTimestamp = values[TIMESTAMP_FIELD];
+    } else if (timeOffset !== null) {
+      let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+      values[TIMESTAMP_FIELD] = timestamp;
+      lastTimestamp = timestamp;
+    }
+
+    if (definition.globalNum === MESG_SESSION) messages.sessions.push(values);
+    else if (definition.globalNum === MESG_LAP) messages.laps.push(values);
+    else if (definition.globalNum === MESG_RECORD) messages.records.push(values);
+    else if (definition.globalNum === MESG_ACTIVITY) messages.activities.push(values);
+  }
+
+  return messages;
+}
+
+export function fitTimestampToDate(timestamp: number): Date {
+  return new Date(FIT_EPOCH_MS + timestamp * 1000);
+}
+
+// FIT sport enum values, with sub_sport refinements for runs
+function sportToType(sport: number | undefined, subSport: number | undefined): string {
+  switch (sport) {
+    case 1:
+      if (subSport === 3) return "Trail Run";
+      if (subSport === 58) return "Virtual Run";
+      return "Run";
+    case 2:
+      return subSport === 58 ? "Virtual Ride" : "Ride";
+    case 5:
+      return "Swim";
+    case 11:
+      return "Walk";
+    case 17:
+      return "Hike";
+    default:
+      return "Workout";
+  }
+}
+
+// Positions are stored as semicircles, 2^31 to 180 degrees
+function semicirclesToDegrees(value: number | undefined): number | null {
+  return value === undefined ? null : value * (180 / 2 ** 31);
+}
+
+// Lap totals are scaled like the session's: times in ms, distance in cm
+function readLap(lap: FITFields): ActivityLap {
+  const elapsedMs = lap[7] ?? lap[8] ?? 0;
+  const ascent = lap[21];
+  const descent = lap[22];
+  return {
+    distance: (lap[9] ?? 0) / 100,
+    elapsedTime: Math.round(elapsedMs / 1000),
+    movingTime: Math.round((lap[8] ?? elapsedMs) / 1000),
+    elevationChange: ascent !== undefined || descent !== undefined ? (ascent ?? 0) - (descent ?? 0) : null,
+    avgHeartRate: lap[15] ?? null,
+    maxHeartRate: lap[16] ?? null,
+  };
+}
+
+function maxOf(values: number[]): number | null {
+  // Not Math.max(...values): a long 1 Hz recording overflows the call stack
+  return values.length > 0 ? values.reduce((max, v) => Math.max(max, v), -Infinity) : null;
+}
+
+function averageOf(values: number[]): number | null {
+  return values.length > 0
+    ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+    : null;
+}
+
+export function parseFIT(buffer: ArrayBuffer, fileName: string): GPXResult {
+  try {
+    const { sessions, laps, records, activities } = decodeFIT(buffer);
+    const session = sessions[0];
+
+    if (!session && laps.length === 0 && records.length < 2) {
+      return { error: "No activity data found in FIT file" };
+    }
+
+    const firstTimestamp = records.find(r => r[TIMESTAMP_FIELD] !== undefined)?.[TIMESTAMP_FIELD];
+    const startTimestamp = session?.[2] ?? laps[0]?.[2] ?? firstTimestamp;
+    if (startTimestamp === undefined) {
+      return { error: "FIT file has no start time" };
+    }
+    const startTime = fitTimestampToDate(startTimestamp);
+
+    const lastTimestamp = [...records].reverse().find(r => r[TIMESTAMP_FIELD] !== undefined)?.[TIMESTAMP_FIELD];
+    const recordSpanMs = lastTimestamp !== undefined ? (lastTimestamp - startTimestamp) * 1000 : 0;
+    const sumLaps = (field: number) => laps.length > 0
+      ? laps.reduce((total, lap) => total + (lap[field] ?? 0), 0)
+      : undefined;
+
+    // Session totals are scaled: times in ms, distance in cm
+    const elapsedMs = session?.[7] ?? sumLaps(7) ?? recordSpanMs;
+    const timerMs = session?.[59] ?? session?.[8] ?? sumLaps(8) ?? elapsedMs;
+    const lastRecordDistance = [...records].reverse().find(r => r[5] !== undefined)?.[5];
+    const distanceCm = session?.[9] ?? sumLaps(9) ?? lastRecordDistance ?? 0;
+    const distanceKm = distanceCm / 100 / 1000;
+
+    if (distanceKm <= 0) {
+      return { error: "FIT activity has no distance" };
+    }
+
+    const heartRates = records.map(r => r[3]).filter((v): v is number => v !== undefined);
+    const cadences = records.map(r => r[4]).filter((v): v is number => v !== undefined);
+    const powers = records.map(r => r[7]).filter((v): v is number => v !== undefined);
+
+    // Prefer enhanced_altitude (field 78) over altitude (field 2); both scale 5, offset 500
+    let elevationGain = session?.[22] ?? 0;
+    if (!session?.[22]) {
+      let lastAltitude: number | null = null;
+      for (const record of records) {
+        const raw = record[78] ?? record[2];
+        if (raw === undefined) continue;
+        const altitude = raw / 5 - 500;
+        if (lastAltitude !== null && altitude > lastAltitude) {
+          elevationGain += altitude - lastAltitude;
+        }
+        lastAltitude = altitude;
+      }
+    }
+
+    // Record altitude uses the same scaling as above, distance is in cm
+    const stream = buildStream(records.map(record => {
+      const altitude = record[78] ?? record[2];
+      return {
+        time: record[TIMESTAMP_FIELD] !== undefined ? fitTimestampToDate(record[TIMESTAMP_FIELD]) : null,
+        lat: semicirclesToDegrees(record[0]),
+        lon: semicirclesToDegrees(record[1]),
+        distance: record[5] !== undefined ? record[5] / 100 : null,
+        elevation: altitude !== undefined ? altitude / 5 - 500 : null,
+        heartRate: record[3] ?? null,
+        cadence: record[4] ?? null,
+      };
+    }));
+
+    // The activity message's local_timestamp (field 5) gives the device's UTC offset,
+    // rounded to the nearest quarter hour as its clock isn't synced to the second
+    const activityMessage = activities[0];
+    const localTimestamp = activityMessage?.[5];
+    const utcTimestamp = activityMessage?.[TIMESTAMP_FIELD];
+    const offset = localTimestamp !== undefined && utcTimestamp !== undefined
+      ? Math.round((localTimestamp - utcTimestamp) / 60 / 15) * 15
+      : null;
+    const utcOffsetMinutes = offset !== null && Math.abs(offset) <= 14 * 60 ? offset : null;
+
+    // Generate a unique ID based on timestamp and filename
+    const uniqueId = `fit-${startTime.getTime()}-${fileName.replace(/[^a-zA-Z0-9]/g, '')}`;
+
+    const activity: Activity = {
+      id: uniqueId,
+      date: startTime,
+      utcOffsetMinutes,
+      name: fileName.replace(/\.fit$/i, '') || "FIT Activity",
+      type: sportToType(session?.[5], session?.[6]),
+      distanceKm,
+      elapsedTime: Math.round(elapsedMs / 1000),
+      movingTime: Math.round(timerMs / 1000), // Timer time excludes auto-paused periods
+      elevationGain,
+      avgHeartRate: session?.[16] ?? averageOf(heartRates),
+      maxHeartRate: session?.[17] ?? maxOf(heartRates),
+      avgCadence: session?.[18] ?? averageOf(cadences),
+      maxCadence: session?.[19] ?? maxOf(cadences),
+      avgPower: session?.[20] ?? averageOf(powers),
+    };
+
+    return { activity, stream, laps: laps.map(readLap) };
+  } catch (err) {
+    console.error("FIT parsing error:", err);
+    return { error: "Invalid FIT file format" };
+  }
+}
@@ -1,69 +1,177 @@
-import gpxParser from "gpxparser";
 import { Activity } from "./parseActivities";
+import { computeMovingTime, haversineDistance, MovingTimeOptions } from "./movingTime";
+import { ActivityLap, ActivityStream, buildStream, PackedStream } from "./streams";
+import { childAt, findAll, findFirst, numberOf, parseXML, textOf, XMLElement } from "./xml";
 
 export interface GPXParseResult {
   activity: Activity;
+  // Per-point samples, when the file has them
+  stream?: ActivityStream | null;
+  // Device laps, from TCX and FIT files
+  laps?: ActivityLap[];
+  // The stream packed for storage; parseTrackData swaps it in for stream
+  packedStream?: PackedStream | null;
   error?: undefined;
 }
 
 export interface GPXParseError {
   activity?: undefined;
+  stream?: undefined;
+  laps?: undefined;
+  packedStream?: undefined;
   error: string;
 }
 
 export type GPXResult = GPXParseResult | GPXParseError;
 
-export function parseGPX(gpxText: string, fileName: string): GPXResult {
+// <trk><type> values, lowercased. Strava writes its own numeric activity
+// type codes; Garmin and most other apps write a sport name.
+const GPX_TYPES: Record<string, string> = {
+  running: "Run",
+  run: "Run",
+  "9": "Run",
+  trail_running: "Trail Run",
+  cycling: "Ride",
+  biking: "Ride",
+  ride: "Ride",
+  "1": "Ride",
+  walking: "Walk",
+  walk: "Walk",
+  "10": "Walk",
+  hiking: "Hike",
+  hike: "Hike",
+  "4": "Hike",
+  swimming: "Swim",
+  swim: "Swim",
+};
+
+// Files without a type are taken to be runs, as they always were
+function gpxType(type: string | null): string {
+  if (!type) return "Run";
+  return GPX_TYPES[type.toLowerCase()] ?? "Workout";
+}
+
+export interface GPXPointExtensions {
+  hr: number | null;
+  cad: number | null;
+  power: number | null;
+}
+
+// Reads a gpxtpx:TrackPointExtension (or similar) value by local name,
+// since Garmin, Strava and Wahoo use different namespace prefixes
+function readExtension(trkpt: XMLElement, names: string[]): number | null {
+  for (const name of names) {
+    const value = numberOf(findFirst(trkpt, name));
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+export function parseGPXExtensions(trkpts: XMLElement[]): GPXPointExtensions[] {
+  return trkpts.map(trkpt => ({
+    hr: readExtension(trkpt, ["hr", "heartrate"]),
+    cad: readExtension(trkpt, ["cad", "cadence"]),
+    power: readExtension(trkpt, ["power", "PowerInWatts"]),
+  }));
+}
+
+function summarize(values: (number | null)[]): { avg: number | null; max: number | null } {
+  const present = values.filter((v): v is number => v !== null && v > 0);
+  if (present.length === 0) return { avg: null, max: null };
+  return {
+    avg: Math.round(present.reduce((sum, v) => sum + v, 0) / present.length),
+    max: present.reduce((max, v) => Math.max(max, v), -Infinity),
+  };
+}
+
+export function parseGPX(
+  gpxText: string,
+  fileName: string,
+  movingTimeOptions?: Partial<MovingTimeOptions>
+): GPXResult {
   try {
-    const gpx = new gpxParser();
-    gpx.parse(gpxText);
+    const track = findFirst(parseXML(gpxText), "trk");
 
-    if (!gpx.tracks || gpx.tracks.length === 0) {
+    if (!track) {
       return { error: "No tracks found in GPX file" };
     }
 
-    const track = gpx.tracks[0];
-    const points = track.points;
+    const trkpts = findAll(track, "trkpt");
+    const points = trkpts.map(trkpt => {
+      const time = textOf(childAt(trkpt, ["time"]));
+      return {
+        lat: parseFloat(trkpt.attributes.lat),
+        lon: parseFloat(trkpt.attributes.lon),
+        ele: numberOf(childAt(trkpt, ["ele"])),
+        time: time ? new Date(time) : null,
+      };
+    });
 
-    if (!points || points.length < 2) {
+    if (points.length < 2) {
       return { error: "Track has insufficient points" };
     }
 
     // Get start and end times
-    const startTime = points[0].time ? new Date(points[0].time) : new Date();
-    const endTime = points[points.length - 1].time 
-      ? new Date(points[points.length - 1].time) 
-      : startTime;
+    const startTime = points[0].time ?? new Date();
+    const endTime = points[points.length - 1].time ?? startTime;
 
     // Calculate elapsed time in seconds
     const elapsedTime = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
 
-    // Distance in km (gpxparser provides distance in meters via track.distance.total)
-    const distanceKm = track.distance.total / 1000;
+    // Moving time excludes slow segments and recording gaps between points
+    const movingTime = computeMovingTime(points, movingTimeOptions);
+
+    // Distance and elevation gain summed point to point
+    let distanceMeters = 0;
+    let elevationGain = 0;
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1];
+      const point = points[i];
+      distanceMeters += haversineDistance(prev.lat, prev.lon, point.lat, point.lon);
+      if (prev.ele !== null && point.ele !== null && point.ele > prev.ele) {
+        elevationGain += point.ele - prev.ele;
+      }
+    }
+    const distanceKm = distanceMeters / 1000;
+
+    // Heart rate, cadence and power live in per-point extensions
+    const extensions = parseGPXExtensions(trkpts);
+    const heartRate = summarize(extensions.map(e => e.hr));
+    const cadence = summarize(extensions.map(e => e.cad));
+    const power = summarize(extensions.map(e => e.power));
 
-    // Elevation gain (gpxparser provides this via track.elevation.pos)
-    const elevationGain = track.elevation?.pos || 0;
+    const stream = buildStream(points.map((point, i) => ({
+      time: point.time,
+      lat: point.lat,
+      lon: point.lon,
+      elevation: point.ele,
+      heartRate: extensions[i].hr,
+      cadence: extensions[i].cad,
+    })));
 
     // Generate a unique ID based on timestamp and filename
     const uniqueId = `gpx-${startTime.getTime()}-${fileName.replace(/[^a-zA-Z0-9]/g, '')}`;
 
     // Use track name or derive from filename
-    const name = track.name || fileName.replace(/\.gpx$/i, '') || "GPX Run";
+    const name = textOf(childAt(track, ["name"])) || fileName.replace(/\.gpx$/i, '') || "GPX Run";
 
     const activity: Activity = {
       id: uniqueId,
       date: startTime,
       name,
-      type: "Run",
+      type: gpxType(textOf(childAt(track, ["type"]))),
       distanceKm,
       elapsedTime,
-      movingTime: elapsedTime, // GPX doesn't distinguish moving vs stopped
+      movingTime,
       elevationGain,
-      avgHeartRate: null, // GPX typically doesn't include HR data
-      maxHeartRate: null,
+      avgHeartRate: heartRate.avg,
+      maxHeartRate: heartRate.max,
+      avgCadence: cadence.avg,
+      maxCadence: cadence.max,
+      avgPower: power.avg,
     };
 
-    return { activity };
+    return { activity, stream };
   } catch (err) {
     console.error("GPX parsing error:", err);
     return { error: "Invalid GPX file format" };
@@ -0,0 +1,61 @@
+import type { CSVResult, ProgressCallback } from "./parseActivities";
+import type { ArchiveResult } from "./parseStravaArchive";
+import type { GPXResult } from "./parseGPX";
+import type { ParseRequest, ParseResponse } from "./parseWorker";
+
+export interface ParseOptions {
+  onProgress?: ProgressCallback;
+  // Aborting terminates the worker and rejects with the signal's reason
+  signal?: AbortSignal;
+}
+
+function runInWorker<T>(request: ParseRequest, { onProgress, signal }: ParseOptions): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL("./parseWorker.ts", import.meta.url), { type: "module" });
+    const abort = () => {
+      finish();
+      reject(signal.reason);
+    };
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+    signal?.addEventListener("abort", abort);
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      finish();
+      if (message.type === "result") {
+        resolve(message.result as T);
+      } else {
+        reject(new Error(message.error));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Parsing failed"));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+// Parses a Strava activities.csv or bulk-export ZIP
+export function parseActivitiesFile(file: File, options: ParseOptions = {}): Promise<CSVResult | ArchiveResult> {
+  return runInWorker({ kind: "activities", file }, options);
+}
+
+// Parses .gpx, .tcx and .fit files, returning results in input order
+export function parseTrackFilesInWorker(files: File[], options: ParseOptions = {}): Promise<GPXResult[]> {
+  return runInWorker({ kind: "tracks", files }, options);
+}
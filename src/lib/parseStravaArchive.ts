@@ -0,0 +1,115 @@
+import { Activity, CSVParseError, CSVParseResult, parseCSV, ProgressCallback } from "./parseActivities";
+import { parseTrackData } from "./parseTrackFile";
+import { PackedStream } from "./streams";
+import { readZip, ZIP64_ERROR, ZipEntry } from "./unzip";
+
+export interface ArchiveTrackReport {
+  enriched: number;
+  missing: string[];
+  failed: { fileName: string; error: string }[];
+}
+
+export interface ArchiveParseResult extends CSVParseResult {
+  tracks: ArchiveTrackReport;
+  // Recorded streams from the track files, by activity ID
+  streams: Map<string, PackedStream>;
+}
+
+export type ArchiveResult = ArchiveParseResult | CSVParseError;
+
+// CSV values are Strava's own summary and win; the track file fills the gaps
+function enrichActivity(csv: Activity, track: Activity): Activity {
+  return {
+    ...csv,
+    // The CSV's dates carry no timezone, but FIT and TCX files may record one
+    utcOffsetMinutes: csv.utcOffsetMinutes ?? track.utcOffsetMinutes,
+    elapsedTime: csv.elapsedTime || track.elapsedTime,
+    movingTime: csv.movingTime || track.movingTime,
+    elevationGain: csv.elevationGain || track.elevationGain,
+    avgHeartRate: csv.avgHeartRate ?? track.avgHeartRate,
+    maxHeartRate: csv.maxHeartRate ?? track.maxHeartRate,
+    avgCadence: csv.avgCadence ?? track.avgCadence,
+    maxCadence: csv.maxCadence ?? track.maxCadence,
+    avgPower: csv.avgPower ?? track.avgPower,
+  };
+}
+
+// Parses a Strava "download your data" ZIP: activities.csv plus the
+// per-activity track files it references in its Filename column.
+// Progress is weighted by the uncompressed size of each file read.
+export async function parseStravaArchive(
+  buffer: ArrayBuffer,
+  onProgress?: ProgressCallback
+): Promise<ArchiveResult> {
+  let entries: ZipEntry[];
+  try {
+    entries = readZip(buffer);
+  } catch (err) {
+    console.error("ZIP parsing error:", err);
+    // Very large exports come as ZIP64; say so rather than calling them invalid
+    const error = err instanceof Error && err.message === ZIP64_ERROR
+      ? "This archive uses ZIP64, which isn't supported"
+      : "Invalid ZIP archive";
+    return { report: { matched: [], missing: [] }, error };
+  }
+
+  const csvEntry = entries.find(e => /(^|\/)activities\.csv$/i.test(e.name));
+  if (!csvEntry) {
+    return { report: { matched: [], missing: [] }, error: "No activities.csv found in archive" };
+  }
+
+  // Filenames in the CSV are relative to the folder holding activities.csv
+  const baseDir = csvEntry.name.slice(0, csvEntry.name.lastIndexOf("/") + 1);
+  const trackEntries = entries.filter(e => e !== csvEntry && e.name.startsWith(baseDir));
+  const totalBytes = csvEntry.size + trackEntries.reduce((sum, e) => sum + e.size, 0) || 1;
+  let doneBytes = csvEntry.size;
+
+  const csvResult = parseCSV(
+    new TextDecoder().decode(await csvEntry.read()),
+    ({ rows, fraction }) => onProgress?.({ rows, fraction: (fraction * csvEntry.size) / totalBytes })
+  );
+  if (csvResult.error) return csvResult as CSVParseError;
+
+  const entriesByName = new Map(entries.map(e => [e.name, e]));
+  const tracks: ArchiveTrackReport = { enriched: 0, missing: [], failed: [] };
+  const streams = new Map<string, PackedStream>();
+
+  const activities: Activity[] = [];
+  for (const activity of csvResult.activities) {
+    const sourceFile = activity.sourceFile;
+    const entry = sourceFile ? entriesByName.get(baseDir + sourceFile) : undefined;
+    if (entry) doneBytes += entry.size;
+    onProgress?.({ rows: activities.length, fraction: doneBytes / totalBytes });
+
+    if (!entry) {
+      if (sourceFile) tracks.missing.push(sourceFile);
+      activities.push(activity);
+      continue;
+    }
+
+    try {
+      const trackResult = await parseTrackData(entry.name, await entry.read());
+      if (trackResult.error) {
+        tracks.failed.push({ fileName: sourceFile, error: trackResult.error });
+        activities.push(activity);
+      } else {
+        activities.push(enrichActivity(activity, trackResult.activity));
+        if (trackResult.packedStream) streams.set(activity.id, trackResult.packedStream);
+        tracks.enriched++;
+      }
+    } catch (err) {
+      console.error(`Error reading ${entry.name}:`, err);
+      tracks.failed.push({ fileName: sourceFile, error: "Could not read file from archive" });
+      activities.push(activity);
+    }
+  }
+
+  return {
+    activities,
+    report: csvResult.report,
+    skipped: csvResult.skipped,
+    dateFormat: csvResult.dateFormat,
+    tracks,
+    streams,
+  };
+}
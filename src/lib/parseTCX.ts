@@ -0,0 +1,150 @@
+import { Activity } from "./parseActivities";
+import { GPXResult } from "./parseGPX";
+import { ActivityLap, buildStream } from "./streams";
+import { childAt, findAll, numberOf, parseXML, textOf, XMLElement } from "./xml";
+
+// TCX only distinguishes these three sports
+const SPORT_TYPES: Record<string, string> = {
+  Running: "Run",
+  Biking: "Ride",
+  Other: "Workout",
+};
+
+function childNumber(parent: XMLElement, path: string[]): number | null {
+  return numberOf(childAt(parent, path));
+}
+
+// A lap's own totals; elapsed time and elevation come from its trackpoints
+function readLap(lap: XMLElement): ActivityLap {
+  const movingTime = Math.round(childNumber(lap, ["TotalTimeSeconds"]) ?? 0);
+  const points = findAll(lap, "Trackpoint");
+  const altitudes = points
+    .map(point => childNumber(point, ["AltitudeMeters"]))
+    .filter((a): a is number => a !== null);
+
+  const start = lap.attributes.StartTime ? new Date(lap.attributes.StartTime).getTime() : NaN;
+  const lastTime = points.length > 0 ? textOf(childAt(points[points.length - 1], ["Time"])) : null;
+  const span = lastTime ? Math.round((new Date(lastTime).getTime() - start) / 1000) : NaN;
+
+  return {
+    distance: childNumber(lap, ["DistanceMeters"]) ?? 0,
+    elapsedTime: span > movingTime ? span : movingTime,
+    movingTime,
+    elevationChange: altitudes.length > 1 ? altitudes[altitudes.length - 1] - altitudes[0] : null,
+    avgHeartRate: childNumber(lap, ["AverageHeartRateBpm", "Value"]),
+    maxHeartRate: childNumber(lap, ["MaximumHeartRateBpm", "Value"]),
+  };
+}
+
+export function parseTCX(tcxText: string, fileName: string): GPXResult {
+  try {
+    const doc = parseXML(tcxText);
+
+    const activityEl = findAll(doc, "Activity")[0];
+    if (!activityEl) {
+      return { error: "No activities found in TCX file" };
+    }
+
+    const laps = findAll(activityEl, "Lap");
+    if (laps.length === 0) {
+      return { error: "Activity has no laps" };
+    }
+
+    // Start time comes from the activity Id, falling back to the first lap
+    const idText = textOf(findAll(activityEl, "Id")[0]) ?? laps[0].attributes.StartTime;
+    const startTime = idText ? new Date(idText) : new Date();
+    if (isNaN(startTime.getTime())) {
+      return { error: "TCX activity has no valid start time" };
+    }
+
+    let totalTime = 0;
+    let totalDistance = 0;
+    let hrTime = 0;
+    let hrWeightedSum = 0;
+    let maxHeartRate: number | null = null;
+
+    for (const lap of laps) {
+      const lapTime = childNumber(lap, ["TotalTimeSeconds"]) ?? 0;
+      totalTime += lapTime;
+      totalDistance += childNumber(lap, ["DistanceMeters"]) ?? 0;
+
+      // Weight each lap's average by its duration
+      const lapAvgHR = childNumber(lap, ["AverageHeartRateBpm", "Value"]);
+      if (lapAvgHR !== null && lapTime > 0) {
+        hrWeightedSum += lapAvgHR * lapTime;
+        hrTime += lapTime;
+      }
+
+      const lapMaxHR = childNumber(lap, ["MaximumHeartRateBpm", "Value"]);
+      if (lapMaxHR !== null) {
+        maxHeartRate = Math.max(maxHeartRate ?? 0, lapMaxHR);
+      }
+    }
+
+    if (totalDistance <= 0) {
+      return { error: "TCX activity has no distance" };
+    }
+
+    // Elapsed time and elevation come from the trackpoints when present
+    const trackpoints = findAll(activityEl, "Trackpoint");
+    let elapsedTime = Math.round(totalTime);
+    let elevationGain = 0;
+    let lastAltitude: number | null = null;
+
+    for (const point of trackpoints) {
+      const altitude = childNumber(point, ["AltitudeMeters"]);
+      if (altitude === null) continue;
+      if (lastAltitude !== null && altitude > lastAltitude) {
+        elevationGain += altitude - lastAltitude;
+      }
+      lastAltitude = altitude;
+    }
+
+    const lastTimeText = trackpoints.length > 0
+      ? textOf(childAt(trackpoints[trackpoints.length - 1], ["Time"]))
+      : null;
+    if (lastTimeText) {
+      const endTime = new Date(lastTimeText);
+      const trackElapsed = Math.round((endTime.getTime() - startTime.getTime()) / 1000);
+      if (trackElapsed > elapsedTime) elapsedTime = trackElapsed;
+    }
+
+    // Run cadence sits in the TPX extension; bike cadence is a direct child
+    const stream = buildStream(trackpoints.map(point => {
+      const time = textOf(childAt(point, ["Time"]));
+      return {
+        time: time ? new Date(time) : null,
+        lat: childNumber(point, ["Position", "LatitudeDegrees"]),
+        lon: childNumber(point, ["Position", "LongitudeDegrees"]),
+        distance: childNumber(point, ["DistanceMeters"]),
+        elevation: childNumber(point, ["AltitudeMeters"]),
+        heartRate: childNumber(point, ["HeartRateBpm", "Value"]),
+        cadence: childNumber(point, ["Cadence"]) ?? numberOf(findAll(point, "RunCadence")[0]),
+      };
+    }));
+
+    const sport = activityEl.attributes.Sport ?? "Running";
+    const type = SPORT_TYPES[sport] ?? "Workout";
+
+    // Generate a unique ID based on timestamp and filename
+    const uniqueId = `tcx-${startTime.getTime()}-${fileName.replace(/[^a-zA-Z0-9]/g, '')}`;
+
+    const activity: Activity = {
+      id: uniqueId,
+      date: startTime,
+      name: fileName.replace(/\.tcx$/i, '') || "TCX Activity",
+      type,
+      distanceKm: totalDistance / 1000,
+      elapsedTime,
+      movingTime: Math.round(totalTime), // Lap time excludes auto-paused periods
+      elevationGain,
+      avgHeartRate: hrTime > 0 ? Math.round(hrWeightedSum / hrTime) : null,
+      maxHeartRate,
+    };
+
+    return { activity, stream, laps: laps.map(readLap) };
+  } catch (err) {
+    console.error("TCX parsing error:", err);
+    return { error: "Invalid TCX file format" };
+  }
+}
@@ -0,0 +1,77 @@
+import { GPXResult, parseGPX } from "./parseGPX";
+import { parseTCX } from "./parseTCX";
+import { parseFIT } from "./parseFIT";
+import { ProgressCallback } from "./parseActivities";
+import { packStream } from "./streams";
+import { gunzip } from "./unzip";
+
+const PARSE_CONCURRENCY = 4;
+
+// Extensions accepted by the single-activity upload
+export const TRACK_FILE_ACCEPT = ".gpx,.tcx,.fit";
+
+// Parses track data by file name, transparently handling gzipped files
+// such as the .fit.gz and .tcx.gz in Strava bulk exports. The stream comes
+// back packed, so large batches don't hold every point in memory.
+export async function parseTrackData(fileName: string, data: Uint8Array): Promise<GPXResult> {
+  const result = await readTrackData(fileName, data);
+  if (result.error || !result.stream) return result;
+
+  return { activity: result.activity, packedStream: await packStream(result.stream, result.laps) };
+}
+
+async function readTrackData(fileName: string, data: Uint8Array): Promise<GPXResult> {
+  if (/\.gz$/i.test(fileName)) {
+    try {
+      data = await gunzip(data);
+    } catch (err) {
+      console.error("Gzip decompression error:", err);
+      return { error: `Could not decompress ${fileName}` };
+    }
+    fileName = fileName.replace(/\.gz$/i, '');
+  }
+
+  if (/\.fit$/i.test(fileName)) {
+    // Copy into a standalone buffer, as data may be a view into a larger archive
+    return parseFIT(data.slice().buffer, fileName);
+  }
+
+  const text = new TextDecoder().decode(data);
+  if (/\.tcx$/i.test(fileName)) {
+    // Some devices pad TCX files with leading whitespace, which breaks the XML prolog
+    return parseTCX(text.trimStart(), fileName);
+  }
+  if (/\.gpx$/i.test(fileName)) {
+    return parseGPX(text, fileName);
+  }
+  return { error: `Unsupported file type: ${fileName}` };
+}
+
+export async function parseTrackFile(file: File): Promise<GPXResult> {
+  return parseTrackData(file.name, new Uint8Array(await file.arrayBuffer()));
+}
+
+// Parses files with a bounded number in flight, keeping input order.
+// Progress counts finished files, weighted by size.
+export async function parseTrackFiles(
+  files: File[],
+  onProgress?: ProgressCallback
+): Promise<GPXResult[]> {
+  const results: GPXResult[] = new Array(files.length);
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0) || 1;
+  let doneBytes = 0;
+  let done = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      results[index] = await parseTrackFile(files[index]);
+      doneBytes += files[index].size;
+      onProgress?.({ rows: ++done, fraction: doneBytes / totalBytes });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(PARSE_CONCURRENCY, files.length) }, worker));
+  return results;
+}
@@ -0,0 +1,50 @@
+// Web Worker entry that parses uploaded files off the main thread.
+// Started through parseInWorker; each job gets its own worker.
+import { parseCSV, ParseProgress } from "./parseActivities";
+import { parseStravaArchive } from "./parseStravaArchive";
+import { parseTrackFiles } from "./parseTrackFile";
+
+export type ParseRequest =
+  // A Strava activities.csv or bulk-export ZIP
+  | { kind: "activities"; file: File }
+  // Individual .gpx, .tcx or .fit files (optionally gzipped)
+  | { kind: "tracks"; files: File[] };
+
+export type ParseResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | { type: "result"; result: unknown }
+  | { type: "error"; error: string };
+
+// Keeps progress messages from flooding the main thread on large exports
+const PROGRESS_INTERVAL_MS = 100;
+
+const scope = self as unknown as Worker;
+const post = (message: ParseResponse) => scope.postMessage(message);
+
+let lastProgressAt = 0;
+const reportProgress = (progress: ParseProgress) => {
+  const now = Date.now();
+  if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+  lastProgressAt = now;
+  post({ type: "progress", progress });
+};
+
+async function run(request: ParseRequest) {
+  switch (request.kind) {
+    case "activities":
+      return /\.zip$/i.test(request.file.name)
+        ? parseStravaArchive(await request.file.arrayBuffer(), reportProgress)
+        : parseCSV(await request.file.text(), reportProgress);
+    case "tracks":
+      return parseTrackFiles(request.files, reportProgress);
+  }
+}
+
+scope.onmessage = async (event: MessageEvent<ParseRequest>) => {
+  try {
+    post({ type: "result", result: await run(event.data) });
+  } catch (err) {
+    console.error("Parse worker error:", err);
+    post({ type: "error", error: err instanceof Error ? err.message : "Parsing failed" });
+  }
+};
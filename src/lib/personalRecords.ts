@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { chunk } from "./utils";
+import { BestEffortKey, BestEffortRecord, findBestEfforts, hasBestEfforts } from "./bestEfforts";
+import { ActivityStream } from "./streams";
+
+const BATCH_SIZE = 100;
+
+// An activity with its recorded stream, ready to search for best efforts
+export interface StreamedActivity {
+  id: string;
+  type: string;
+  date: string;
+  stream: ActivityStream;
+}
+
+function fromRecordRow(row: Tables<"personal_records">): BestEffortRecord {
+  return {
+    key: row.distance_key as BestEffortKey,
+    time: row.elapsed_time,
+    startOffset: row.start_offset,
+    activityId: row.activity_id,
+    achievedAt: new Date(row.achieved_at),
+  };
+}
+
+// Every saved best effort; the records are worked out from these
+export async function loadBestEfforts(userId: string): Promise<BestEffortRecord[]> {
+  const { data, error } = await supabase
+    .from("personal_records")
+    .select("*")
+    .eq("user_id", userId)
+    .order("achieved_at", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(fromRecordRow);
+}
+
+// Replaces the saved best efforts of these activities with the ones in their streams
+export async function saveBestEfforts(userId: string, activities: StreamedActivity[]): Promise<void> {
+  const rows: TablesInsert<"personal_records">[] = activities
+    .filter(activity => hasBestEfforts(activity.type))
+    .flatMap(activity => findBestEfforts(activity.stream).map(effort => ({
+      user_id: userId,
+      activity_id: activity.id,
+      distance_key: effort.key,
+      elapsed_time: effort.time,
+      start_offset: effort.startOffset,
+      achieved_at: activity.date,
+    })));
+
+  for (const ids of chunk(activities.map(a => a.id), BATCH_SIZE)) {
+    const { error } = await supabase
+      .from("personal_records")
+      .delete()
+      .eq("user_id", userId)
+      .in("activity_id", ids);
+
+    if (error) throw error;
+  }
+
+  for (const batch of chunk(rows, BATCH_SIZE)) {
+    const { error } = await supabase.from("personal_records").insert(batch);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,111 @@
+// Predicted race times from recent performances, using either Riegel's
+// endurance formula or Jack Daniels' VDOT
+import { BEST_EFFORT_DISTANCES, BestEffortKey } from "./bestEfforts";
+
+export type PredictionModel = "riegel" | "vdot";
+
+export const PREDICTION_MODELS: { value: PredictionModel; label: string }[] = [
+  { value: "riegel", label: "Riegel" },
+  { value: "vdot", label: "VDOT" },
+];
+
+// Which performances the predictions are based on
+export type PerformanceSource = "efforts" | "races" | "both";
+
+export const PERFORMANCE_SOURCES: { value: PerformanceSource; label: string }[] = [
+  { value: "efforts", label: "Best efforts" },
+  { value: "races", label: "Races" },
+  { value: "both", label: "Both" },
+];
+
+const PREDICTED_KEYS: BestEffortKey[] = ["5k", "10k", "half", "marathon"];
+
+export const PREDICTED_DISTANCES = BEST_EFFORT_DISTANCES.filter(d => PREDICTED_KEYS.includes(d.key));
+
+// Only performances this recent reflect current fitness
+export const RECENT_DAYS = 180;
+
+// Shorter efforts extrapolate badly to a half or full marathon
+export const MIN_PERFORMANCE_METERS = 3000;
+
+const RIEGEL_EXPONENT = 1.06;
+
+export interface Performance {
+  label: string;
+  meters: number;
+  // Seconds
+  time: number;
+  date: Date;
+  // The activity it came from; races entered by hand have none
+  activityId: string | null;
+}
+
+export interface RacePrediction {
+  key: BestEffortKey;
+  label: string;
+  meters: number;
+  time: number;
+  // The performance that gave the fastest prediction
+  basis: Performance;
+}
+
+export function riegelTime(performance: Performance, meters: number): number {
+  return performance.time * Math.pow(meters / performance.meters, RIEGEL_EXPONENT);
+}
+
+// Daniels and Gilbert's oxygen cost of the pace, divided by the fraction of
+// VO2max that can be held for that long
+export function vdotFor(meters: number, seconds: number): number {
+  const minutes = seconds / 60;
+  const velocity = meters / minutes;
+  const oxygenCost = -4.6 + 0.182258 * velocity + 0.000104 * velocity * velocity;
+  const fractionOfMax = 0.8
+    + 0.1894393 * Math.exp(-0.012778 * minutes)
+    + 0.2989558 * Math.exp(-0.1932605 * minutes);
+  return oxygenCost / fractionOfMax;
+}
+
+// The time at which vdotFor(meters, time) equals vdot, found by bisection
+// since the formula has no inverse
+export function vdotTime(vdot: number, meters: number): number {
+  let fast = 60;
+  let slow = 24 * 60 * 60;
+  for (let i = 0; i < 50; i++) {
+    const mid = (fast + slow) / 2;
+    if (vdotFor(meters, mid) > vdot) fast = mid;
+    else slow = mid;
+  }
+  return (fast + slow) / 2;
+}
+
+export function predictTime(performance: Performance, meters: number, model: PredictionModel): number {
+  return model === "riegel"
+    ? riegelTime(performance, meters)
+    : vdotTime(vdotFor(performance.meters, performance.time), meters);
+}
+
+// Performances long and recent enough to predict from
+export function recentPerformances(performances: Performance[], now = new Date()): Performance[] {
+  const since = now.getTime() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  return performances.filter(p => p.meters >= MIN_PERFORMANCE_METERS && p.date.getTime() >= since);
+}
+
+// The fastest prediction at each distance from any of the performances
+export function predictRaces(performances: Performance[], model: PredictionModel): RacePrediction[] {
+  if (performances.length === 0) return [];
+
+  return PREDICTED_DISTANCES.map(({ key, label, meters }) => {
+    let best: RacePrediction | null = null;
+    for (const performance of performances) {
+      const time = predictTime(performance, meters, model);
+      if (!best || time < best.time) best = { key, label, meters, time, basis: performance };
+    }
+    return best!;
+  });
+}
+
+// The best VDOT among the performances, shown as a fitness score
+export function bestVdot(performances: Performance[]): number | null {
+  if (performances.length === 0) return null;
+  return Math.max(...performances.map(p => vdotFor(p.meters, p.time)));
+}
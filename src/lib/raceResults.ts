@@ -0,0 +1,127 @@
+// Race results entered by hand, for races run without a recorded track
+import { z } from "zod";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { BEST_EFFORT_DISTANCES, fastestPlausibleTime } from "./bestEfforts";
+import { formatDurationInput, parseDuration } from "./activityForm";
+import { DistanceUnit, toKilometers, UnitPreferences } from "./units";
+
+export interface RaceResult {
+  id: string;
+  name: string;
+  // Local midnight on the race day
+  date: Date;
+  meters: number;
+  // Seconds
+  time: number;
+}
+
+// The distance picker offers the standard distances, or any other
+export const OTHER_DISTANCE = "other";
+
+// From the half marathon up, "3:30" is read as hours and minutes by people
+// but as minutes and seconds by parseDuration, so the hours must be given
+export const HOURS_REQUIRED_METERS = 21000;
+
+const baseSchema = z.object({
+  name: z.string().trim().min(1, "Give the race a name").max(200, "Keep the name under 200 characters"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date"),
+  distanceKey: z.string().min(1, "Pick a distance"),
+  // Only used for OTHER_DISTANCE, in the user's unit
+  distance: z.string().trim(),
+  time: z.string().refine(v => (parseDuration(v) ?? 0) > 0, "Use minutes, mm:ss or h:mm:ss"),
+});
+
+export type RaceResultFormValues = z.infer<typeof baseSchema>;
+
+// The race distance in meters, or null when a custom distance isn't valid
+export function raceMeters(values: Pick<RaceResultFormValues, "distanceKey" | "distance">, unit: DistanceUnit): number | null {
+  const standard = BEST_EFFORT_DISTANCES.find(d => d.key === values.distanceKey);
+  if (standard) return standard.meters;
+  const distance = Number(values.distance);
+  return distance > 0 && distance < 1000 ? toKilometers(distance, unit) * 1000 : null;
+}
+
+// Custom distances are in the user's unit, so the schema depends on it
+export function createRaceResultFormSchema(unit: DistanceUnit) {
+  return baseSchema
+    .refine(
+      v => raceMeters(v, unit) !== null,
+      { message: "Enter a distance", path: ["distance"] }
+    )
+    .superRefine((v, ctx) => {
+      const meters = raceMeters(v, unit);
+      const time = parseDuration(v.time);
+      if (meters === null || !time) return;
+
+      if (meters >= HOURS_REQUIRED_METERS && v.time.trim().split(":").length < 3) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Use h:mm:ss for a race this long", path: ["time"] });
+      } else if (time < fastestPlausibleTime(meters)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Faster than the world record (${formatDurationInput(Math.round(fastestPlausibleTime(meters)))})`,
+          path: ["time"],
+        });
+      }
+    });
+}
+
+export function emptyRaceResultForm(now = new Date()): RaceResultFormValues {
+  return {
+    name: "",
+    date: format(now, "yyyy-MM-dd"),
+    distanceKey: "5k",
+    distance: "",
+    time: "",
+  };
+}
+
+function fromRaceResultRow(row: Tables<"race_results">): RaceResult {
+  return {
+    id: row.id,
+    name: row.name,
+    date: new Date(`${row.race_date}T00:00:00`),
+    meters: Number(row.distance_meters),
+    time: row.elapsed_time,
+  };
+}
+
+export async function loadRaceResults(userId: string): Promise<RaceResult[]> {
+  const { data, error } = await supabase
+    .from("race_results")
+    .select("*")
+    .eq("user_id", userId)
+    .order("race_date", { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(fromRaceResultRow);
+}
+
+export async function addRaceResult(
+  userId: string,
+  values: RaceResultFormValues,
+  units: UnitPreferences
+): Promise<RaceResult> {
+  const meters = raceMeters(values, units.distanceUnit)!;
+
+  const { data, error } = await supabase
+    .from("race_results")
+    .insert({
+      user_id: userId,
+      name: values.name.trim(),
+      race_date: values.date,
+      distance_meters: meters,
+      elapsed_time: parseDuration(values.time)!,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return fromRaceResultRow(data);
+}
+
+export async function deleteRaceResult(id: string): Promise<void> {
+  const { error } = await supabase.from("race_results").delete().eq("id", id);
+  if (error) throw error;
+}
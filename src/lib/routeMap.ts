@@ -0,0 +1,220 @@
+// Geometry for drawing a recorded route without a map library. Positions are
+// projected with Web Mercator, so an optional tile layer lines up with them.
+import { ActivityStream } from "./streams";
+
+const TILE_SIZE = 256;
+const MAX_TILE_ZOOM = 18;
+
+export type RouteColorMode = "plain" | "pace" | "heartRate";
+
+export interface MapPoint {
+  x: number;
+  y: number;
+  // Index into the stream
+  index: number;
+}
+
+export interface RouteFrame {
+  width: number;
+  height: number;
+  // World pixels at zoom 0 to frame pixels: frame = (world - origin) * scale
+  originX: number;
+  originY: number;
+  scale: number;
+  points: MapPoint[];
+}
+
+export interface MapTile {
+  url: string;
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface DistanceMarker {
+  x: number;
+  y: number;
+  // Whole km or miles from the start
+  label: number;
+}
+
+export interface ColoredPath {
+  color: string;
+  points: MapPoint[];
+}
+
+// Longitude and latitude to Web Mercator pixels at zoom 0
+function toWorld(lat: number, lon: number): { x: number; y: number } {
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * TILE_SIZE,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * TILE_SIZE,
+  };
+}
+
+// Fits the route into a width x height frame, centred, with padding on every side
+export function projectRoute(
+  stream: ActivityStream,
+  width: number,
+  height: number,
+  padding = 24
+): RouteFrame | null {
+  const world = stream.time
+    .map((_, index) => {
+      const lat = stream.lat[index];
+      const lon = stream.lon[index];
+      return lat === null || lon === null ? null : { ...toWorld(lat, lon), index };
+    })
+    .filter((p): p is MapPoint => p !== null);
+  if (world.length < 2) return null;
+
+  // A loop rather than Math.min(...xs), which overflows the call stack on
+  // long recordings
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const { x, y } of world) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  const spanX = maxX - minX;
+  const spanY = maxY - minY;
+
+  // Capped at the deepest tile zoom, so a route that never moved (e.g. a
+  // treadmill run with GPS on) doesn't blow up to a single point
+  const scale = Math.min(
+    (width - 2 * padding) / Math.max(spanX, 1e-9),
+    (height - 2 * padding) / Math.max(spanY, 1e-9),
+    2 ** MAX_TILE_ZOOM
+  );
+  const originX = minX - (width / scale - spanX) / 2;
+  const originY = minY - (height / scale - spanY) / 2;
+
+  return {
+    width,
+    height,
+    originX,
+    originY,
+    scale,
+    points: world.map(p => ({ x: (p.x - originX) * scale, y: (p.y - originY) * scale, index: p.index })),
+  };
+}
+
+// Tiles covering the frame from a {z}/{x}/{y} URL template
+export function tilesForFrame(frame: RouteFrame, urlTemplate: string): MapTile[] {
+  const zoom = Math.max(0, Math.min(MAX_TILE_ZOOM, Math.floor(Math.log2(frame.scale))));
+  const tileCount = 2 ** zoom;
+  // A tile's size in frame pixels, at the frame's possibly fractional scale
+  const size = (TILE_SIZE / tileCount) * frame.scale;
+
+  const first = (origin: number) => Math.floor((origin / TILE_SIZE) * tileCount);
+  const last = (origin: number, extent: number) =>
+    Math.floor(((origin + extent / frame.scale) / TILE_SIZE) * tileCount);
+
+  const tiles: MapTile[] = [];
+  for (let ty = Math.max(0, first(frame.originY)); ty <= Math.min(tileCount - 1, last(frame.originY, frame.height)); ty++) {
+    for (let tx = first(frame.originX); tx <= last(frame.originX, frame.width); tx++) {
+      // Wrap around the antimeridian
+      const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        url: urlTemplate.replace("{z}", String(zoom)).replace("{x}", String(wrapped)).replace("{y}", String(ty)),
+        x: (tx * (TILE_SIZE / tileCount) - frame.originX) * frame.scale,
+        y: (ty * (TILE_SIZE / tileCount) - frame.originY) * frame.scale,
+        size,
+      });
+    }
+  }
+  return tiles;
+}
+
+// Where the route passes each whole unit of distance, interpolated between points
+export function distanceMarkers(frame: RouteFrame, stream: ActivityStream, unitMeters: number): DistanceMarker[] {
+  const markers: DistanceMarker[] = [];
+  let next = unitMeters;
+
+  for (let i = 1; i < frame.points.length; i++) {
+    const a = frame.points[i - 1];
+    const b = frame.points[i];
+    const da = stream.distance[a.index];
+    const db = stream.distance[b.index];
+    if (da === null || db === null) continue;
+
+    while (db >= next) {
+      const t = db > da ? Math.max(0, (next - da) / (db - da)) : 1;
+      markers.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, label: Math.round(next / unitMeters) });
+      next += unitMeters;
+    }
+  }
+
+  return markers;
+}
+
+// Speed (m/s) around each point over a window of neighbouring points,
+// which smooths out GPS jitter
+function smoothedSpeeds(stream: ActivityStream, window = 5): (number | null)[] {
+  return stream.time.map((_, i) => {
+    const from = Math.max(0, i - window);
+    const to = Math.min(stream.time.length - 1, i + window);
+    const d0 = stream.distance[from];
+    const d1 = stream.distance[to];
+    const dt = stream.time[to] - stream.time[from];
+    return d0 === null || d1 === null || dt <= 0 ? null : (d1 - d0) / dt;
+  });
+}
+
+// The value each point is coloured by; higher is faster or harder
+export function colorValues(stream: ActivityStream, mode: RouteColorMode): (number | null)[] {
+  if (mode === "pace") return smoothedSpeeds(stream);
+  if (mode === "heartRate") return stream.heartRate;
+  return stream.time.map(() => null);
+}
+
+// The 5th and 95th percentiles, so a few outliers don't flatten the scale
+export function valueRange(values: (number | null)[]): { min: number; max: number } | null {
+  const sorted = values.filter((v): v is number => v !== null && v > 0).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  return {
+    min: sorted[Math.floor(sorted.length * 0.05)],
+    max: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+  };
+}
+
+const COLOR_STEPS = 12;
+
+// Blue for low values through to red for high ones
+export function colorAt(fraction: number): string {
+  const step = Math.round(Math.max(0, Math.min(1, fraction)) * (COLOR_STEPS - 1)) / (COLOR_STEPS - 1);
+  return `hsl(${Math.round(220 - step * 220)}, 85%, 50%)`;
+}
+
+// Splits the route into runs of points sharing a colour, so long tracks stay
+// a handful of SVG paths instead of one element per segment
+export function colorPaths(
+  frame: RouteFrame,
+  values: (number | null)[],
+  range: { min: number; max: number } | null,
+  plainColor: string
+): ColoredPath[] {
+  const paths: ColoredPath[] = [];
+
+  for (const point of frame.points) {
+    const value = values[point.index];
+    const color = range && value !== null
+      ? colorAt(range.max > range.min ? (value - range.min) / (range.max - range.min) : 0.5)
+      : plainColor;
+
+    const current = paths[paths.length - 1];
+    if (current && current.color === color) {
+      current.points.push(point);
+    } else {
+      // Start from the previous point so consecutive paths join up
+      const previous = current?.points[current.points.length - 1];
+      paths.push({ color, points: previous ? [previous, point] : [point] });
+    }
+  }
+
+  return paths;
+}
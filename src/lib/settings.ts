@@ -0,0 +1,61 @@
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { DEFAULT_UNITS, DistanceUnit, ElevationUnit, isDistanceUnit, isElevationUnit } from "./units";
+import { isPresetKey, PresetKey } from "./datePresets";
+
+export interface UserSettings {
+  distanceUnit: DistanceUnit;
+  elevationUnit: ElevationUnit;
+  // 0 = Sunday ... 6 = Saturday, as in Date.getDay
+  weekStartDay: number;
+  // IANA zone for activities whose file has no timezone; null uses the browser's
+  timezone: string | null;
+  defaultPreset: PresetKey;
+  maxHeartRate: number | null;
+  restingHeartRate: number | null;
+  displayName: string | null;
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  ...DEFAULT_UNITS,
+  weekStartDay: 1,
+  timezone: null,
+  defaultPreset: "3m",
+  maxHeartRate: null,
+  restingHeartRate: null,
+  displayName: null,
+};
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function isWeekday(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+}
+
+// Users without a saved row, or with an unknown value, get the defaults
+export function fromSettingsRow(row: Tables<"user_settings"> | null): UserSettings {
+  return {
+    distanceUnit: isDistanceUnit(row?.distance_unit) ? row.distance_unit : DEFAULT_SETTINGS.distanceUnit,
+    elevationUnit: isElevationUnit(row?.elevation_unit) ? row.elevation_unit : DEFAULT_SETTINGS.elevationUnit,
+    weekStartDay: isWeekday(row?.week_start_day) ? row.week_start_day : DEFAULT_SETTINGS.weekStartDay,
+    timezone: row?.timezone || null,
+    defaultPreset: isPresetKey(row?.default_preset) ? row.default_preset : DEFAULT_SETTINGS.defaultPreset,
+    maxHeartRate: row?.max_heart_rate ?? null,
+    restingHeartRate: row?.resting_heart_rate ?? null,
+    displayName: row?.display_name || null,
+  };
+}
+
+export function toSettingsRow(settings: UserSettings, userId: string): TablesInsert<"user_settings"> {
+  return {
+    user_id: userId,
+    distance_unit: settings.distanceUnit,
+    elevation_unit: settings.elevationUnit,
+    week_start_day: settings.weekStartDay,
+    timezone: settings.timezone,
+    default_preset: settings.defaultPreset,
+    max_heart_rate: settings.maxHeartRate,
+    resting_heart_rate: settings.restingHeartRate,
+    display_name: settings.displayName,
+    updated_at: new Date().toISOString(),
+  };
+}
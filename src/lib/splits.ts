@@ -0,0 +1,84 @@
+import { ActivityStream } from "./streams";
+
+// Shorter leftovers at the end aren't worth a split of their own
+const MIN_FINAL_SPLIT_METERS = 50;
+
+export interface Split {
+  // 1 for the first
+  number: number;
+  // Meters; a full unit except for the final split
+  distance: number;
+  // Elapsed seconds, stops included
+  time: number;
+  // Meters at the end of the split minus at its start
+  elevationChange: number | null;
+  avgHeartRate: number | null;
+}
+
+// Splits every unitMeters along the stream's distance, interpolating the time
+// and elevation where each boundary falls between two points
+export function computeSplits(stream: ActivityStream, unitMeters: number): Split[] {
+  const indexes = stream.distance
+    .map((d, i) => (d === null ? null : i))
+    .filter((i): i is number => i !== null);
+  if (indexes.length < 2) return [];
+
+  const splits: Split[] = [];
+  const first = indexes[0];
+  let startDistance = stream.distance[first]!;
+  let startTime = stream.time[first];
+  let lastElevation = stream.elevation[first];
+  let startElevation = lastElevation;
+  let hrSum = 0;
+  let hrTime = 0;
+
+  const close = (distance: number, time: number, elevation: number | null) => {
+    splits.push({
+      number: splits.length + 1,
+      distance: distance - startDistance,
+      time: time - startTime,
+      elevationChange: elevation !== null && startElevation !== null ? elevation - startElevation : null,
+      avgHeartRate: hrTime > 0 ? Math.round(hrSum / hrTime) : null,
+    });
+    startDistance = distance;
+    startTime = time;
+    startElevation = elevation;
+    hrSum = 0;
+    hrTime = 0;
+  };
+
+  let boundary = startDistance + unitMeters;
+  for (let k = 1; k < indexes.length; k++) {
+    const a = indexes[k - 1];
+    const b = indexes[k];
+    const da = stream.distance[a]!;
+    const db = stream.distance[b]!;
+    const elevation = stream.elevation[b];
+
+    const dt = stream.time[b] - stream.time[a];
+    const hr = stream.heartRate[b];
+    if (hr !== null && dt > 0) {
+      hrSum += hr * dt;
+      hrTime += dt;
+    }
+
+    while (db >= boundary) {
+      const t = db > da ? (boundary - da) / (db - da) : 1;
+      const time = stream.time[a] + (stream.time[b] - stream.time[a]) * t;
+      const boundaryElevation = lastElevation !== null && elevation !== null
+        ? lastElevation + (elevation - lastElevation) * t
+        : elevation ?? lastElevation;
+      close(boundary, time, boundaryElevation);
+      boundary += unitMeters;
+    }
+
+    if (elevation !== null) lastElevation = elevation;
+  }
+
+  const last = indexes[indexes.length - 1];
+  if (stream.distance[last]! - startDistance >= MIN_FINAL_SPLIT_METERS) {
+    close(stream.distance[last]!, stream.time[last], lastElevation);
+  }
+
+  return splits;
+}
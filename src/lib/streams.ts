@@ -0,0 +1,179 @@
+// Per-point series recorded in track files, and the packed form they are
+// stored in. Kept free of the Supabase client so the parse worker can use it.
+import { segmentDistance, StreamPoint } from "./movingTime";
+import { gunzip, gzip } from "./unzip";
+
+export interface ActivityStream {
+  // Seconds since the first sample
+  time: number[];
+  lat: (number | null)[];
+  lon: (number | null)[];
+  // Meters
+  elevation: (number | null)[];
+  heartRate: (number | null)[];
+  cadence: (number | null)[];
+  // Cumulative meters from the start
+  distance: (number | null)[];
+}
+
+export type StreamChannel = keyof ActivityStream;
+
+// A lap as the device recorded it, from the lap button or auto-lap
+export interface ActivityLap {
+  // Meters
+  distance: number;
+  // Seconds
+  elapsedTime: number;
+  movingTime: number;
+  // Meters climbed minus meters descended
+  elevationChange: number | null;
+  avgHeartRate: number | null;
+  maxHeartRate: number | null;
+}
+
+export interface StreamSample extends StreamPoint {
+  elevation: number | null;
+  heartRate: number | null;
+  cadence: number | null;
+}
+
+// Builds a stream from parsed track points, dropping those without a time.
+// Distance is the device's odometer when recorded, otherwise summed from positions.
+export function buildStream(samples: StreamSample[]): ActivityStream | null {
+  const timed = samples.filter(s => s.time && !isNaN(s.time.getTime()));
+  if (timed.length < 2) return null;
+
+  const start = timed[0].time!.getTime();
+  const stream: ActivityStream = {
+    time: [], lat: [], lon: [], elevation: [], heartRate: [], cadence: [], distance: [],
+  };
+  let distance = 0;
+  let hasDistance = false;
+
+  timed.forEach((sample, i) => {
+    const segment = i > 0 ? segmentDistance(timed[i - 1], sample) : 0;
+    if (segment !== null) {
+      distance += segment;
+      hasDistance = true;
+    }
+
+    stream.time.push((sample.time!.getTime() - start) / 1000);
+    stream.lat.push(sample.lat);
+    stream.lon.push(sample.lon);
+    stream.elevation.push(sample.elevation);
+    stream.heartRate.push(sample.heartRate);
+    stream.cadence.push(sample.cadence);
+    stream.distance.push(hasDistance ? distance : null);
+  });
+
+  return stream;
+}
+
+// Channels with at least one recorded value
+export function streamChannels(stream: ActivityStream): StreamChannel[] {
+  return (Object.keys(stream) as StreamChannel[])
+    .filter(channel => stream[channel].some(v => v !== null));
+}
+
+// Values are stored as integer multiples of 1/scale: ~1 m for positions,
+// 10 cm for elevation and distance
+const CHANNEL_SCALES: Record<StreamChannel, number> = {
+  time: 1,
+  lat: 1e5,
+  lon: 1e5,
+  elevation: 10,
+  heartRate: 1,
+  cadence: 1,
+  distance: 10,
+};
+
+const PACK_VERSION = 1;
+
+// What gets stored for a stream
+export interface PackedStream {
+  // Base64 gzip of the delta-encoded JSON payload
+  data: string;
+  pointCount: number;
+  channels: StreamChannel[];
+  // Small enough to store as they are
+  laps: ActivityLap[];
+}
+
+interface StreamPayload {
+  version: number;
+  length: number;
+  // Deltas from the previous recorded value; missing channels are all null
+  channels: Partial<Record<StreamChannel, (number | null)[]>>;
+}
+
+function encodeChannel(values: (number | null)[], scale: number): (number | null)[] {
+  let last = 0;
+  return values.map(value => {
+    if (value === null || !Number.isFinite(value)) return null;
+    const scaled = Math.round(value * scale);
+    const delta = scaled - last;
+    last = scaled;
+    return delta;
+  });
+}
+
+function decodeChannel(deltas: (number | null)[], scale: number): (number | null)[] {
+  let last = 0;
+  return deltas.map(delta => {
+    if (delta === null) return null;
+    last += delta;
+    return last / scale;
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Spread in chunks, as fromCharCode takes its input as arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+// Delta-encodes and gzips a stream for storage
+export async function packStream(stream: ActivityStream, laps: ActivityLap[] = []): Promise<PackedStream> {
+  const channels = streamChannels(stream);
+  const payload: StreamPayload = { version: PACK_VERSION, length: stream.time.length, channels: {} };
+  for (const channel of channels) {
+    payload.channels[channel] = encodeChannel(stream[channel], CHANNEL_SCALES[channel]);
+  }
+  return {
+    data: toBase64(await gzip(new TextEncoder().encode(JSON.stringify(payload)))),
+    pointCount: payload.length,
+    channels,
+    laps,
+  };
+}
+
+export async function unpackStream(data: string): Promise<ActivityStream> {
+  const payload: StreamPayload = JSON.parse(new TextDecoder().decode(await gunzip(fromBase64(data))));
+  if (payload.version !== PACK_VERSION) {
+    throw new Error(`Unsupported stream version ${payload.version}`);
+  }
+
+  const channel = (name: StreamChannel) => {
+    const deltas = payload.channels[name];
+    return deltas
+      ? decodeChannel(deltas, CHANNEL_SCALES[name])
+      : new Array<number | null>(payload.length).fill(null);
+  };
+
+  return {
+    time: channel("time") as number[],
+    lat: channel("lat"),
+    lon: channel("lon"),
+    elevation: channel("elevation"),
+    heartRate: channel("heartRate"),
+    cadence: channel("cadence"),
+    distance: channel("distance"),
+  };
+}
@@ -0,0 +1,71 @@
+// Distances are stored in km and elevation in metres; these convert them to
+// the user's preferred units for display and back again for filter input.
+
+export type DistanceUnit = 'km' | 'mi';
+export type ElevationUnit = 'm' | 'ft';
+
+export interface UnitPreferences {
+  distanceUnit: DistanceUnit;
+  elevationUnit: ElevationUnit;
+}
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  distanceUnit: 'km',
+  elevationUnit: 'm',
+};
+
+const KM_PER_MILE = 1.609344;
+const METERS_PER_FOOT = 0.3048;
+
+export function isDistanceUnit(value: unknown): value is DistanceUnit {
+  return value === 'km' || value === 'mi';
+}
+
+export function isElevationUnit(value: unknown): value is ElevationUnit {
+  return value === 'm' || value === 'ft';
+}
+
+// Meters in one km or mile, e.g. for markers and splits along a track
+export function metersPerUnit(unit: DistanceUnit): number {
+  return unit === 'mi' ? KM_PER_MILE * 1000 : 1000;
+}
+
+export function convertDistance(km: number, unit: DistanceUnit): number {
+  return unit === 'mi' ? km / KM_PER_MILE : km;
+}
+
+// Converts a value entered in the user's unit back to km
+export function toKilometers(value: number, unit: DistanceUnit): number {
+  return unit === 'mi' ? value * KM_PER_MILE : value;
+}
+
+export function convertElevation(meters: number, unit: ElevationUnit): number {
+  return unit === 'ft' ? meters / METERS_PER_FOOT : meters;
+}
+
+// Converts a value entered in the user's unit back to metres
+export function toMeters(value: number, unit: ElevationUnit): number {
+  return unit === 'ft' ? value * METERS_PER_FOOT : value;
+}
+
+export function formatDistance(km: number, unit: DistanceUnit, decimals = 1): string {
+  return `${convertDistance(km, unit).toFixed(decimals)} ${unit}`;
+}
+
+// Seconds per km or mile, or null without a distance
+export function paceSeconds(seconds: number, km: number, unit: DistanceUnit): number | null {
+  const distance = convertDistance(km, unit);
+  return distance > 0 ? seconds / distance : null;
+}
+
+// Pace as "m:ss /km" or "m:ss /mi"
+export function formatPace(seconds: number, km: number, unit: DistanceUnit): string {
+  const pace = paceSeconds(seconds, km, unit);
+  if (pace === null) return "-";
+  const rounded = Math.round(pace);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')} /${unit}`;
+}
+
+export function formatElevation(meters: number, unit: ElevationUnit): string {
+  return `${Math.round(convertElevation(meters, unit))} ${unit}`;
+}
@@ -0,0 +1,96 @@
+// Minimal ZIP reader built on the browser's DecompressionStream.
+// Supports stored and deflated entries; ZIP64 archives are rejected.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export const ZIP64_ERROR = "ZIP64 archives are not supported";
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+async function decompress(data: Uint8Array, format: "gzip" | "deflate-raw"): Promise<Uint8Array> {
+  const stream = new Response(data).body!.pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  return decompress(data, "gzip");
+}
+
+export async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data).body!.pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The EOCD record is at least 22 bytes and may be followed by a comment of up to 64 KB
+  const min = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= min; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+export function readZip(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  // ZIP64 archives put all-ones placeholders here and the real values in records we don't read
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error(ZIP64_ERROR);
+  }
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(ZIP64_ERROR);
+    }
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Skip directories
+    if (name.endsWith("/")) continue;
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+          throw new Error(`Corrupt ZIP entry: ${name}`);
+        }
+        // The local header repeats name and extra field, possibly with different lengths
+        const dataStart = localOffset + 30
+          + view.getUint16(localOffset + 26, true)
+          + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) return data;
+        if (method === 8) return decompress(data, "deflate-raw");
+        throw new Error(`Unsupported compression method ${method} for ${name}`);
+      },
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,32 @@
+import { Activity, WeekData } from "./parseActivities";
+
+export interface WeekComparison {
+  // Activities of the same type that week, longest first
+  peers: Activity[];
+  // 1 for the longest of them
+  distanceRank: number;
+  // Fraction of the week's total distance, across all types
+  shareOfWeek: number;
+  // Averages over the other activities of the same type, null if there are none
+  othersAvgDistanceKm: number | null;
+  othersPaceSecondsPerKm: number | null;
+}
+
+// How an activity stacks up against the others of its type in its week
+export function compareWithWeek(activity: Activity, week: WeekData): WeekComparison {
+  const peers = week.activities
+    .filter(a => a.type === activity.type)
+    .sort((a, b) => b.distanceKm - a.distanceKm);
+  const others = peers.filter(a => a.id !== activity.id);
+
+  const othersKm = others.reduce((sum, a) => sum + a.distanceKm, 0);
+  const othersTime = others.reduce((sum, a) => sum + a.movingTime, 0);
+
+  return {
+    peers,
+    distanceRank: peers.findIndex(a => a.id === activity.id) + 1,
+    shareOfWeek: week.totalKm > 0 ? activity.distanceKm / week.totalKm : 0,
+    othersAvgDistanceKm: others.length > 0 ? othersKm / others.length : null,
+    othersPaceSecondsPerKm: othersKm > 0 ? othersTime / othersKm : null,
+  };
+}
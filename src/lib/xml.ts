@@ -0,0 +1,170 @@
+// Minimal non-validating XML reader for GPX and TCX files. Unlike DOMParser it
+// also works inside Web Workers. Namespace prefixes are dropped, so elements
+// and attributes are matched by local name (Garmin, Strava and Wahoo all use
+// different prefixes for the same extensions).
+
+export interface XMLElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+  // Text directly inside this element, entities decoded
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+// Index just past the closing ">" of the tag starting at `start`, skipping quoted attribute values
+function tagEnd(text: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i + 1;
+    }
+  }
+  throw new Error("Unterminated tag");
+}
+
+function skipPast(text: string, marker: string, from: number): number {
+  const index = text.indexOf(marker, from);
+  if (index === -1) throw new Error(`Missing "${marker}"`);
+  return index + marker.length;
+}
+
+const ATTRIBUTE = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Parses a document and returns its root element. Throws on malformed markup.
+export function parseXML(text: string): XMLElement {
+  const document: XMLElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XMLElement[] = [document];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const current = stack[stack.length - 1];
+    const lt = text.indexOf("<", pos);
+    const textEnd = lt === -1 ? text.length : lt;
+    if (textEnd > pos && current !== document) {
+      current.text += decodeEntities(text.slice(pos, textEnd));
+    }
+    if (lt === -1) break;
+
+    if (text.startsWith("<!--", lt)) {
+      pos = skipPast(text, "-->", lt + 4);
+    } else if (text.startsWith("<![CDATA[", lt)) {
+      const end = text.indexOf("]]>", lt);
+      if (end === -1) throw new Error("Unterminated CDATA section");
+      current.text += text.slice(lt + 9, end);
+      pos = end + 3;
+    } else if (text[lt + 1] === "?" || text[lt + 1] === "!") {
+      // XML declaration, processing instruction or DOCTYPE
+      pos = tagEnd(text, lt);
+    } else if (text[lt + 1] === "/") {
+      pos = tagEnd(text, lt);
+      const name = localName(text.slice(lt + 2, pos - 1).trim());
+      if (current === document || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+    } else {
+      pos = tagEnd(text, lt);
+      const selfClosing = text[pos - 2] === "/";
+      const body = text.slice(lt + 1, selfClosing ? pos - 2 : pos - 1);
+      const nameEnd = body.search(/\s|$/);
+      const element: XMLElement = {
+        name: localName(body.slice(0, nameEnd)),
+        attributes: {},
+        children: [],
+        text: "",
+      };
+      for (const [, key, double, single] of body.slice(nameEnd).matchAll(ATTRIBUTE)) {
+        element.attributes[localName(key)] = decodeEntities(double ?? single);
+      }
+
+      if (current === document && document.children.length > 0) {
+        throw new Error("Multiple root elements");
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (document.children.length === 0) {
+    throw new Error("No root element");
+  }
+  return document.children[0];
+}
+
+// All descendants with the given local name, in document order
+export function findAll(parent: XMLElement, name: string): XMLElement[] {
+  const found: XMLElement[] = [];
+  const visit = (el: XMLElement) => {
+    for (const child of el.children) {
+      if (child.name === name) found.push(child);
+      visit(child);
+    }
+  };
+  visit(parent);
+  return found;
+}
+
+export function findFirst(parent: XMLElement, name: string): XMLElement | undefined {
+  for (const child of parent.children) {
+    if (child.name === name) return child;
+    const nested = findFirst(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+// Follows a path of direct children, e.g. ["AverageHeartRateBpm", "Value"]
+export function childAt(parent: XMLElement, path: string[]): XMLElement | undefined {
+  let el: XMLElement | undefined = parent;
+  for (const name of path) {
+    el = el.children.find(c => c.name === name);
+    if (!el) return undefined;
+  }
+  return el;
+}
+
+export function textOf(el: XMLElement | undefined): string | null {
+  if (!el) return null;
+  const text = el.children.length > 0
+    ? el.text + el.children.map(c => textOf(c) ?? "").join("")
+    : el.text;
+  return text.trim();
+}
+
+export function numberOf(el: XMLElement | undefined): number | null {
+  const value = parseFloat(textOf(el) ?? "");
+  return isNaN(value) ? null : value;
+}
@@ -2,7 +2,9 @@ import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Loader2, Search, Trash2, X } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Copy, Loader2, Pencil, Search, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -38,18 +40,14 @@ import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { ActivityTypeFilter } from "@/components/ActivityTypeFilter";
+import { EditActivityDialog } from "@/components/EditActivityDialog";
+import { getActivityTypes } from "@/lib/parseActivities";
+import { toWallClock } from "@/lib/parseDates";
+import { toKilometers } from "@/lib/units";
+import { useUnits } from "@/hooks/useUnits";
 
-interface Activity {
-  id: string;
-  name: string;
-  activity_date: string;
-  distance_km: number;
-  moving_time: number;
-  elapsed_time: number;
-  elevation_gain: number | null;
-  avg_heart_rate: number | null;
-  max_heart_rate: number | null;
-}
+type Activity = Tables<"activities">;
 
 const formatDuration = (seconds: number): string => {
   const hours = Math.floor(seconds / 3600);
@@ -67,7 +65,9 @@ const Activities = () => {
   const navigate = useNavigate();
   const [activities, setActivities] = useState<Activity[]>([]);
   const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Activity | null>(null);
   const { toast } = useToast();
+  const { distanceUnit, formatDistance, formatElevation } = useUnits();
 
   // Filter states
   const [searchName, setSearchName] = useState("");
@@ -75,9 +75,10 @@ const Activities = () => {
   const [endDate, setEndDate] = useState<Date | undefined>();
   const [minDistance, setMinDistance] = useState("");
   const [maxDistance, setMaxDistance] = useState("");
+  const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
 
   // Sort state
-  type SortColumn = "activity_date" | "name" | "distance_km" | "moving_time" | "elevation_gain";
+  type SortColumn = "activity_date" | "name" | "activity_type" | "distance_km" | "moving_time" | "elevation_gain";
   const [sortColumn, setSortColumn] = useState<SortColumn>("activity_date");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
 
@@ -90,6 +91,11 @@ const Activities = () => {
     }
   };
 
+  const availableTypes = useMemo(
+    () => getActivityTypes(activities.map((a) => a.activity_type)),
+    [activities]
+  );
+
   const filteredAndSortedActivities = useMemo(() => {
     const filtered = activities.filter((activity) => {
       // Name filter
@@ -97,8 +103,13 @@ const Activities = () => {
         return false;
       }
 
+      // Type filter
+      if (selectedTypes.length > 0 && !selectedTypes.includes(activity.activity_type)) {
+        return false;
+      }
+
       // Date range filter
-      const activityDate = new Date(activity.activity_date);
+      const activityDate = toWallClock(new Date(activity.activity_date), activity.utc_offset_minutes);
       if (startDate && activityDate < startDate) {
         return false;
       }
@@ -110,11 +121,11 @@ const Activities = () => {
         }
       }
 
-      // Distance filter
-      if (minDistance && activity.distance_km < parseFloat(minDistance)) {
+      // Distance filter, entered in the user's distance unit
+      if (minDistance && activity.distance_km < toKilometers(parseFloat(minDistance), distanceUnit)) {
         return false;
       }
-      if (maxDistance && activity.distance_km > parseFloat(maxDistance)) {
+      if (maxDistance && activity.distance_km > toKilometers(parseFloat(maxDistance), distanceUnit)) {
         return false;
       }
 
@@ -141,7 +152,7 @@ const Activities = () => {
       if (aVal > bVal) return sortDirection === "asc" ? 1 : -1;
       return 0;
     });
-  }, [activities, searchName, startDate, endDate, minDistance, maxDistance, sortColumn, sortDirection]);
+  }, [activities, searchName, selectedTypes, startDate, endDate, minDistance, maxDistance, distanceUnit, sortColumn, sortDirection]);
 
   const clearFilters = () => {
     setSearchName("");
@@ -149,9 +160,10 @@ const Activities = () => {
     setEndDate(undefined);
     setMinDistance("");
     setMaxDistance("");
+    setSelectedTypes([]);
   };
 
-  const hasActiveFilters = searchName || startDate || endDate || minDistance || maxDistance;
+  const hasActiveFilters = searchName || selectedTypes.length > 0 || startDate || endDate || minDistance || maxDistance;
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -160,7 +172,7 @@ const Activities = () => {
   // Reset page when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchName, startDate, endDate, minDistance, maxDistance, sortColumn, sortDirection]);
+  }, [searchName, selectedTypes, startDate, endDate, minDistance, maxDistance, distanceUnit, sortColumn, sortDirection]);
 
   const totalPages = Math.ceil(filteredAndSortedActivities.length / pageSize);
   const paginatedActivities = useMemo(() => {
@@ -196,6 +208,10 @@ const Activities = () => {
       });
     }
   };
+  const handleSaved = (saved: Activity) => {
+    setActivities((prev) => prev.map((a) => (a.id === saved.id ? saved : a)));
+  };
+
   useEffect(() => {
     if (!authLoading && !user) {
       navigate("/auth");
@@ -252,14 +268,25 @@ const Activities = () => {
             </Button>
             <h1 className="text-2xl font-bold text-foreground">All Activities</h1>
           </div>
-          <span className="text-sm text-muted-foreground">
-            {filteredAndSortedActivities.length} of {activities.length} {activities.length === 1 ? "activity" : "activities"}
-          </span>
+          <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate("/duplicates")}
+              className="gap-2"
+            >
+              <Copy className="h-4 w-4" />
+              Review duplicates
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {filteredAndSortedActivities.length} of {activities.length} {activities.length === 1 ? "activity" : "activities"}
+            </span>
+          </div>
         </div>
 
         {/* Filters */}
         <div className="mb-6 p-4 rounded-lg border bg-card">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
             {/* Search by name */}
             <div className="space-y-2">
               <Label htmlFor="search-name">Search Name</Label>
@@ -275,6 +302,17 @@ const Activities = () => {
               </div>
             </div>
 
+            {/* Activity type */}
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <ActivityTypeFilter
+                availableTypes={availableTypes}
+                selectedTypes={selectedTypes}
+                onChange={setSelectedTypes}
+                className="w-full justify-start gap-2 font-normal"
+              />
+            </div>
+
             {/* Start date */}
             <div className="space-y-2">
               <Label>Start Date</Label>
@@ -331,7 +369,7 @@ const Activities = () => {
 
             {/* Min distance */}
             <div className="space-y-2">
-              <Label htmlFor="min-distance">Min Distance (km)</Label>
+              <Label htmlFor="min-distance">Min Distance ({distanceUnit})</Label>
               <Input
                 id="min-distance"
                 type="number"
@@ -345,7 +383,7 @@ const Activities = () => {
 
             {/* Max distance */}
             <div className="space-y-2">
-              <Label htmlFor="max-distance">Max Distance (km)</Label>
+              <Label htmlFor="max-distance">Max Distance ({distanceUnit})</Label>
               <Input
                 id="max-distance"
                 type="number"
@@ -407,6 +445,15 @@ const Activities = () => {
                         <SortIcon column="name" />
                       </div>
                     </TableHead>
+                    <TableHead
+                      className="cursor-pointer hover:bg-muted/50 transition-colors"
+                      onClick={() => handleSort("activity_type")}
+                    >
+                      <div className="flex items-center">
+                        Type
+                        <SortIcon column="activity_type" />
+                      </div>
+                    </TableHead>
                     <TableHead
                       className="cursor-pointer hover:bg-muted/50 transition-colors text-right"
                       onClick={() => handleSort("distance_km")}
@@ -434,56 +481,82 @@ const Activities = () => {
                         <SortIcon column="elevation_gain" />
                       </div>
                     </TableHead>
-                    <TableHead className="w-[50px]"></TableHead>
+                    <TableHead className="w-[90px]"></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {paginatedActivities.map((activity) => (
                     <TableRow key={activity.id}>
                       <TableCell className="font-medium">
-                        {format(new Date(activity.activity_date), "MMM d, yyyy")}
+                        {format(toWallClock(new Date(activity.activity_date), activity.utc_offset_minutes), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => navigate(`/activities/${activity.id}`)}
+                            className="text-left hover:text-primary hover:underline"
+                          >
+                            {activity.name}
+                          </button>
+                          {activity.edited_at && (
+                            <Badge variant="outline" className="text-xs font-normal">Edited</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{activity.activity_type}</Badge>
                       </TableCell>
-                      <TableCell>{activity.name}</TableCell>
                       <TableCell className="text-right">
-                        {activity.distance_km.toFixed(2)} km
+                        {formatDistance(activity.distance_km, 2)}
                       </TableCell>
                       <TableCell className="text-right">
                         {formatDuration(activity.moving_time)}
                       </TableCell>
                       <TableCell className="text-right">
                         {activity.elevation_gain !== null
-                          ? `${Math.round(activity.elevation_gain)} m`
+                          ? formatElevation(activity.elevation_gain)
                           : "-"}
                       </TableCell>
                       <TableCell>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete Activity</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Are you sure you want to delete "{activity.name}"? This action cannot be undone.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleDelete(activity.id, activity.name)}
-                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        <div className="flex items-center justify-end">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setEditing(activity)}
+                            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-muted-foreground hover:text-destructive"
                               >
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Activity</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{activity.name}"? This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(activity.id, activity.name)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -543,6 +616,12 @@ const Activities = () => {
           </>
         )}
       </div>
+
+      <EditActivityDialog
+        activity={editing}
+        onClose={() => setEditing(null)}
+        onSaved={handleSaved}
+      />
     </div>
   );
 };
@@ -0,0 +1,421 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { fromActivityRow, getActivitySource } from "@/lib/activityRows";
+import { getLocalDate, getWeekEnd, getWeekStart, groupByWeek, WeekData } from "@/lib/parseActivities";
+import { compareWithWeek } from "@/lib/weekComparison";
+import { loadActivityStream, StoredStream } from "@/lib/activityStreams";
+import { BestEffortRecord, currentRecords, getBestEffortDistance, recordProgression } from "@/lib/bestEfforts";
+import { loadBestEfforts } from "@/lib/personalRecords";
+import { formatDurationInput } from "@/lib/activityForm";
+import { useSettings } from "@/hooks/useSettings";
+import { useUnits } from "@/hooks/useUnits";
+import { ArrowLeft, Clock, Gauge, Heart, Loader2, MapPin, Mountain, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { StatCard } from "@/components/StatCard";
+import { RouteMap } from "@/components/RouteMap";
+import { ActivitySplits } from "@/components/ActivitySplits";
+import { cn } from "@/lib/utils";
+
+type ActivityRow = Tables<"activities">;
+
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${secs}s`;
+  }
+  return `${minutes}m ${secs}s`;
+};
+
+const formatOffset = (minutes: number | null): string => {
+  if (minutes === null) return "Unknown";
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+};
+
+// Activities are stored as UTC instants, so fetch a margin around the week and
+// let groupByWeek place them by their local day
+const WEEK_MARGIN_MS = 2 * 24 * 60 * 60 * 1000;
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-right text-foreground">{value}</dd>
+    </>
+  );
+}
+
+const ActivityDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const { settings } = useSettings();
+  const { convertDistance, formatDistance, formatElevation, formatPace, paceSeconds, distanceUnit } = useUnits();
+  const navigate = useNavigate();
+  const [row, setRow] = useState<ActivityRow | null>(null);
+  const [week, setWeek] = useState<WeekData | null>(null);
+  const [track, setTrack] = useState<StoredStream | null>(null);
+  const [bestEfforts, setBestEfforts] = useState<BestEffortRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    const fetchActivity = async () => {
+      if (!user || !id) return;
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from("activities")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching activity:", error);
+      }
+      setRow(data ?? null);
+      setLoading(false);
+    };
+
+    fetchActivity();
+  }, [user, id]);
+
+  // The recorded track, for activities imported from track files
+  useEffect(() => {
+    setTrack(null);
+    if (!row) return;
+
+    loadActivityStream(row.id)
+      .then(setTrack)
+      .catch(err => console.error("Error loading activity stream:", err));
+  }, [row]);
+
+  // All of the user's best efforts, to tell which of this activity's are records
+  useEffect(() => {
+    setBestEfforts([]);
+    if (!row) return;
+
+    loadBestEfforts(row.user_id)
+      .then(setBestEfforts)
+      .catch(err => console.error("Error loading personal records:", err));
+  }, [row]);
+
+  // The other activities in the same week, grouped the way the Dashboard does
+  useEffect(() => {
+    const fetchWeek = async () => {
+      if (!row) return;
+
+      const weekStart = getWeekStart(getLocalDate(fromActivityRow(row)), settings.weekStartDay);
+      const { data, error } = await supabase
+        .from("activities")
+        .select("*")
+        .eq("user_id", row.user_id)
+        .gte("activity_date", new Date(weekStart.getTime() - WEEK_MARGIN_MS).toISOString())
+        .lte("activity_date", new Date(getWeekEnd(weekStart).getTime() + WEEK_MARGIN_MS).toISOString());
+
+      if (error) {
+        console.error("Error fetching week:", error);
+        return;
+      }
+      const weeks = groupByWeek((data ?? []).map(fromActivityRow), settings.weekStartDay);
+      setWeek(weeks.find(w => w.weekStart.getTime() === weekStart.getTime()) ?? null);
+    };
+
+    fetchWeek();
+  }, [row, settings.weekStartDay]);
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const backButton = (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => navigate("/activities")}
+      className="gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to Activities
+    </Button>
+  );
+
+  if (!row) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {backButton}
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">This activity doesn't exist or has been deleted.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const activity = fromActivityRow(row);
+  const localDate = getLocalDate(activity);
+  const distanceKm = Number(row.distance_km);
+  const elevationGain = row.elevation_gain === null ? null : Number(row.elevation_gain);
+  const comparison = week ? compareWithWeek(activity, week) : null;
+  const records = currentRecords(bestEfforts);
+  const ownEfforts = bestEfforts.filter(e => e.activityId === row.id);
+  const ownRecords = ownEfforts.filter(e => records.get(e.key)?.activityId === row.id);
+
+  // Heart rate relative to the user's max and resting HR from settings
+  const { maxHeartRate, restingHeartRate } = settings;
+  const percentOfMax = row.avg_heart_rate && maxHeartRate
+    ? Math.round((row.avg_heart_rate / maxHeartRate) * 100)
+    : null;
+  const percentOfReserve = row.avg_heart_rate && maxHeartRate && restingHeartRate
+    ? Math.round(((row.avg_heart_rate - restingHeartRate) / (maxHeartRate - restingHeartRate)) * 100)
+    : null;
+
+  // Positive when this activity was faster than the others that week
+  const pace = paceSeconds(row.moving_time, distanceKm);
+  const othersPace = comparison?.othersPaceSecondsPerKm
+    ? paceSeconds(comparison.othersPaceSecondsPerKm, 1)
+    : null;
+  const paceGain = pace !== null && othersPace !== null ? Math.round(othersPace - pace) : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-col gap-4">
+          <div>{backButton}</div>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-2xl font-bold text-foreground">{row.name}</h1>
+            <Badge variant="secondary">{row.activity_type}</Badge>
+            <Badge variant="outline">{getActivitySource(row.strava_id)}</Badge>
+            {row.edited_at && <Badge variant="outline">Edited</Badge>}
+            {ownRecords.map(effort => (
+              <Badge key={effort.key} className="gap-1">
+                <Trophy className="h-3 w-3" />
+                {getBestEffortDistance(effort.key).label} PR
+              </Badge>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {format(localDate, "EEEE d MMMM yyyy, HH:mm")}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard
+            icon={<MapPin className="w-5 h-5" />}
+            label="Distance"
+            value={formatDistance(distanceKm, 2)}
+          />
+          <StatCard
+            icon={<Clock className="w-5 h-5" />}
+            label="Moving Time"
+            value={formatDuration(row.moving_time)}
+            subValue={`${formatDuration(row.elapsed_time)} elapsed`}
+            delay={50}
+          />
+          <StatCard
+            icon={<Gauge className="w-5 h-5" />}
+            label="Average Pace"
+            value={formatPace(row.moving_time, distanceKm)}
+            subValue={`${formatPace(row.elapsed_time, distanceKm)} including stops`}
+            delay={100}
+          />
+          <StatCard
+            icon={<Mountain className="w-5 h-5" />}
+            label="Elevation Gain"
+            value={elevationGain === null ? "-" : formatElevation(elevationGain)}
+            subValue={elevationGain === null || distanceKm === 0
+              ? undefined
+              : `${formatElevation(elevationGain / convertDistance(distanceKm))} per ${distanceUnit}`}
+            delay={150}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <section className="bg-card rounded-lg p-6 shadow-card border border-border/50">
+            <h2 className="text-lg font-display font-bold text-foreground mb-4">Details</h2>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+              <DetailRow label="Start" value={format(localDate, "MMM d, yyyy HH:mm:ss")} />
+              <DetailRow label="Timezone" value={formatOffset(row.utc_offset_minutes)} />
+              <DetailRow label="Type" value={row.activity_type} />
+              <DetailRow label="Distance" value={formatDistance(distanceKm, 2)} />
+              <DetailRow label="Moving time" value={formatDuration(row.moving_time)} />
+              <DetailRow label="Elapsed time" value={formatDuration(row.elapsed_time)} />
+              <DetailRow label="Stopped" value={formatDuration(Math.max(0, row.elapsed_time - row.moving_time))} />
+              <DetailRow label="Elevation gain" value={elevationGain === null ? "-" : formatElevation(elevationGain)} />
+              {row.avg_cadence !== null && (
+                <DetailRow
+                  label="Cadence"
+                  value={`${row.avg_cadence} avg${row.max_cadence !== null ? ` / ${row.max_cadence} max` : ""}`}
+                />
+              )}
+              {row.avg_power !== null && <DetailRow label="Average power" value={`${row.avg_power} W`} />}
+              <DetailRow label="Source" value={getActivitySource(row.strava_id)} />
+              <DetailRow label="Activity ID" value={row.strava_id} />
+              <DetailRow label="Added" value={format(new Date(row.created_at), "MMM d, yyyy HH:mm")} />
+              {row.edited_at && (
+                <DetailRow label="Edited" value={format(new Date(row.edited_at), "MMM d, yyyy HH:mm")} />
+              )}
+            </dl>
+          </section>
+
+          <section className="bg-card rounded-lg p-6 shadow-card border border-border/50">
+            <div className="flex items-center gap-2 mb-4">
+              <Heart className="h-5 w-5 text-primary" />
+              <h2 className="text-lg font-display font-bold text-foreground">Heart Rate</h2>
+            </div>
+            {row.avg_heart_rate || row.max_heart_rate ? (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                <DetailRow label="Average" value={row.avg_heart_rate ? `${row.avg_heart_rate} bpm` : "-"} />
+                <DetailRow label="Max" value={row.max_heart_rate ? `${row.max_heart_rate} bpm` : "-"} />
+                {percentOfMax !== null && <DetailRow label="Average of your max" value={`${percentOfMax}%`} />}
+                {percentOfReserve !== null && <DetailRow label="Heart rate reserve" value={`${percentOfReserve}%`} />}
+              </dl>
+            ) : (
+              <p className="text-sm text-muted-foreground">No heart rate was recorded.</p>
+            )}
+            {(row.avg_heart_rate && !maxHeartRate) && (
+              <p className="text-xs text-muted-foreground mt-4">
+                Add your max and resting heart rate in Settings to see effort zones.
+              </p>
+            )}
+          </section>
+        </div>
+
+        {track && track.stream.lat.some(v => v !== null) && (
+          <section className="bg-card rounded-lg p-6 shadow-card border border-border/50">
+            <h2 className="text-lg font-display font-bold text-foreground mb-4">Route</h2>
+            <RouteMap stream={track.stream} />
+          </section>
+        )}
+
+        <section className="bg-card rounded-lg p-6 shadow-card border border-border/50">
+          <h2 className="text-lg font-display font-bold text-foreground mb-4">Splits</h2>
+          {track ? (
+            <ActivitySplits stream={track.stream} laps={track.laps} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Splits per {distanceUnit} need a recorded track. This activity only has summary
+              values, averaging {formatPace(row.moving_time, distanceKm)}.
+            </p>
+          )}
+        </section>
+
+        {ownEfforts.length > 0 && (
+          <section className="bg-card rounded-lg p-6 shadow-card border border-border/50">
+            <h2 className="text-lg font-display font-bold text-foreground mb-4">Best Efforts</h2>
+            <div className="space-y-2">
+              {ownEfforts.map(effort => {
+                const { label, meters } = getBestEffortDistance(effort.key);
+                const record = records.get(effort.key)!;
+                const progression = recordProgression(bestEfforts, effort.key);
+                const wasRecord = progression.includes(effort);
+                const beatenBy = progression[progression.indexOf(effort) + 1];
+
+                return (
+                  <div key={effort.key} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-secondary/50 text-sm">
+                    <div>
+                      <p className="font-medium text-foreground">{label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {record === effort
+                          ? "Personal record"
+                          : wasRecord
+                            ? `Was a record until ${format(beatenBy.achievedAt, "d MMM yyyy")}`
+                            : `${formatDurationInput(effort.time - record.time)} off your record`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="text-right whitespace-nowrap">
+                        <p className="font-medium text-foreground">{formatDurationInput(effort.time)}</p>
+                        <p className="text-xs text-muted-foreground">{formatPace(effort.time, meters / 1000)}</p>
+                      </div>
+                      {wasRecord && (
+                        <Trophy className={cn("h-4 w-4", record === effort ? "text-primary" : "text-muted-foreground")} />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
+        <section className="bg-card rounded-lg p-6 shadow-card border border-border/50">
+          <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+            <h2 className="text-lg font-display font-bold text-foreground">
+              {week ? `Week of ${week.weekLabel}` : "Week"}
+            </h2>
+            {week && (
+              <span className="text-sm text-muted-foreground">
+                {formatDistance(week.totalKm)} in {week.activityCount} {week.activityCount === 1 ? "activity" : "activities"}
+              </span>
+            )}
+          </div>
+
+          {comparison ? (
+            <div className="space-y-4">
+              <p className="text-sm text-foreground">
+                {comparison.peers.length === 1
+                  ? `The only ${row.activity_type.toLowerCase()} that week`
+                  : `Longest ${row.activity_type.toLowerCase()} #${comparison.distanceRank} of ${comparison.peers.length} that week`}
+                {`, ${Math.round(comparison.shareOfWeek * 100)}% of the week's distance`}
+                {paceGain !== null && paceGain !== 0 && (
+                  `, ${Math.abs(paceGain)}s/${distanceUnit} ${paceGain > 0 ? "faster" : "slower"} than the others`
+                )}
+                .
+              </p>
+              <div className="space-y-2">
+                {comparison.peers.map((peer) => (
+                  <button
+                    key={peer.id}
+                    type="button"
+                    onClick={() => peer.rowId && navigate(`/activities/${peer.rowId}`)}
+                    disabled={peer.id === activity.id}
+                    className={cn(
+                      "w-full flex items-center justify-between gap-4 p-3 rounded-lg text-left text-sm transition-colors",
+                      peer.id === activity.id ? "bg-primary/10 border border-primary/30" : "bg-secondary/50 hover:bg-secondary"
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground truncate">{peer.name}</p>
+                      <p className="text-xs text-muted-foreground">{format(getLocalDate(peer), "EEE d MMM")}</p>
+                    </div>
+                    <div className="text-right whitespace-nowrap">
+                      <p className="font-medium text-foreground">{formatDistance(peer.distanceKm, 2)}</p>
+                      <p className="text-xs text-muted-foreground">{formatPace(peer.movingTime, peer.distanceKm)}</p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Loading the rest of the week...</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityDetail;
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { duplicatePairKey, findPossibleDuplicates, mergeActivityRows } from "@/lib/findDuplicates";
+import { getActivitySource } from "@/lib/activityRows";
+import { moveActivityStream } from "@/lib/activityStreams";
+import { toWallClock } from "@/lib/parseDates";
+import { ArrowLeft, Copy, GitMerge, Loader2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useUnits } from "@/hooks/useUnits";
+
+type ActivityRow = Tables<"activities">;
+
+interface DuplicatePair {
+  key: string;
+  first: ActivityRow;
+  second: ActivityRow;
+}
+
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${secs}s`;
+  }
+  return `${minutes}m ${secs}s`;
+};
+
+function ActivitySummary({ activity, onDelete, busy }: { activity: ActivityRow; onDelete: () => void; busy: boolean }) {
+  const { formatDistance, formatElevation } = useUnits();
+
+  return (
+    <div className="flex-1 space-y-2 rounded-lg border bg-secondary/30 p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium text-foreground">{activity.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {format(toWallClock(new Date(activity.activity_date), activity.utc_offset_minutes), "MMM d, yyyy HH:mm")}
+          </p>
+        </div>
+        <Badge variant="secondary">{getActivitySource(activity.strava_id)}</Badge>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Distance</dt>
+        <dd className="text-right">{formatDistance(Number(activity.distance_km), 2)}</dd>
+        <dt className="text-muted-foreground">Moving time</dt>
+        <dd className="text-right">{formatDuration(activity.moving_time)}</dd>
+        <dt className="text-muted-foreground">Elevation</dt>
+        <dd className="text-right">
+          {activity.elevation_gain !== null ? formatElevation(Number(activity.elevation_gain)) : "-"}
+        </dd>
+        <dt className="text-muted-foreground">Avg HR</dt>
+        <dd className="text-right">{activity.avg_heart_rate ?? "-"}</dd>
+      </dl>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onDelete}
+        disabled={busy}
+        className="w-full gap-2 text-muted-foreground hover:text-destructive"
+      >
+        <Trash2 className="h-4 w-4" />
+        Discard this one
+      </Button>
+    </div>
+  );
+}
+
+const Duplicates = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [activities, setActivities] = useState<ActivityRow[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchData = useCallback(async () => {
+    if (!user) return;
+
+    const [activitiesResult, dismissalsResult] = await Promise.all([
+      supabase.from("activities").select("*").eq("user_id", user.id),
+      supabase.from("duplicate_dismissals").select("activity_id, other_activity_id").eq("user_id", user.id),
+    ]);
+
+    if (activitiesResult.error || dismissalsResult.error) {
+      console.error("Error fetching duplicates:", activitiesResult.error ?? dismissalsResult.error);
+      toast({ title: "Error loading activities", variant: "destructive" });
+    } else {
+      setActivities(activitiesResult.data ?? []);
+      setDismissed(new Set((dismissalsResult.data ?? []).map(d => duplicatePairKey(d.activity_id, d.other_activity_id))));
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const pairs = useMemo<DuplicatePair[]>(() => {
+    const candidates = activities.map(row => ({
+      row,
+      date: new Date(row.activity_date),
+      distanceKm: Number(row.distance_km),
+      elapsedTime: row.elapsed_time,
+    }));
+
+    return findPossibleDuplicates(candidates)
+      .map(([a, b]) => ({ key: duplicatePairKey(a.row.id, b.row.id), first: a.row, second: b.row }))
+      .filter(pair => !dismissed.has(pair.key));
+  }, [activities, dismissed]);
+
+  const removeActivity = async (pair: DuplicatePair, activity: ActivityRow) => {
+    setBusyKey(pair.key);
+    const { error } = await supabase.from("activities").delete().eq("id", activity.id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to delete activity", variant: "destructive" });
+    } else {
+      setActivities(prev => prev.filter(a => a.id !== activity.id));
+      toast({ title: "Deleted", description: `"${activity.name}" has been removed` });
+    }
+    setBusyKey(null);
+  };
+
+  const keepBoth = async (pair: DuplicatePair) => {
+    if (!user) return;
+    const [activityId, otherActivityId] = pair.key.split(":");
+
+    setBusyKey(pair.key);
+    const { error } = await supabase
+      .from("duplicate_dismissals")
+      .insert({ user_id: user.id, activity_id: activityId, other_activity_id: otherActivityId });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to save decision", variant: "destructive" });
+    } else {
+      setDismissed(prev => new Set(prev).add(pair.key));
+    }
+    setBusyKey(null);
+  };
+
+  const merge = async (pair: DuplicatePair) => {
+    // Strava rows carry the most reliable summary, so they survive a merge
+    const firstIsStrava = getActivitySource(pair.first.strava_id) === "Strava";
+    const secondIsStrava = getActivitySource(pair.second.strava_id) === "Strava";
+    const [primary, other] = secondIsStrava && !firstIsStrava
+      ? [pair.second, pair.first]
+      : [pair.first, pair.second];
+
+    setBusyKey(pair.key);
+    const update = mergeActivityRows(primary, other);
+    try {
+      const { error: updateError } = await supabase.from("activities").update(update).eq("id", primary.id);
+      if (updateError) throw updateError;
+
+      // The other row's track and best efforts would be deleted with it
+      await moveActivityStream(other.id, { id: primary.id, date: primary.activity_date });
+
+      const { error: deleteError } = await supabase.from("activities").delete().eq("id", other.id);
+      if (deleteError) throw deleteError;
+
+      setActivities(prev =>
+        prev
+          .filter(a => a.id !== other.id)
+          .map(a => (a.id === primary.id ? { ...a, ...update } : a))
+      );
+      toast({ title: "Merged", description: `Kept "${primary.name}"` });
+    } catch (err) {
+      console.error("Error merging activities:", err);
+      toast({ title: "Error", description: "Failed to merge activities", variant: "destructive" });
+    }
+    setBusyKey(null);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/activities")}
+              className="gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Activities
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Possible Duplicates</h1>
+          </div>
+          <span className="text-sm text-muted-foreground">
+            {pairs.length} {pairs.length === 1 ? "pair" : "pairs"} to review
+          </span>
+        </div>
+
+        {pairs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No possible duplicates found.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map(pair => (
+              <div key={pair.key} className="rounded-lg border bg-card p-4 space-y-4">
+                <div className="flex flex-col md:flex-row gap-4">
+                  <ActivitySummary
+                    activity={pair.first}
+                    onDelete={() => removeActivity(pair, pair.first)}
+                    busy={busyKey === pair.key}
+                  />
+                  <ActivitySummary
+                    activity={pair.second}
+                    onDelete={() => removeActivity(pair, pair.second)}
+                    busy={busyKey === pair.key}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => keepBoth(pair)}
+                    disabled={busyKey === pair.key}
+                    className="gap-2"
+                  >
+                    <Copy className="h-4 w-4" />
+                    Keep both
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => merge(pair)}
+                    disabled={busyKey === pair.key}
+                    className="gap-2"
+                  >
+                    <GitMerge className="h-4 w-4" />
+                    Merge
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Duplicates;
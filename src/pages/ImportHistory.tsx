@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { rollbackImport } from "@/lib/importHistory";
+import { ArrowLeft, Loader2, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+
+type ImportRow = Tables<"imports">;
+
+const ImportHistory = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [imports, setImports] = useState<ImportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchImports = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("imports")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching imports:", error);
+    } else {
+      setImports(data || []);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchImports();
+  }, [fetchImports]);
+
+  const handleRollback = async (entry: ImportRow) => {
+    if (!user) return;
+
+    setRollingBack(entry.id);
+    try {
+      const { reverted, kept } = await rollbackImport(user.id, entry.id);
+      toast({
+        title: "Import rolled back",
+        description: kept > 0
+          ? `${reverted} activities restored, ${kept} changed since and left as they are`
+          : `${reverted} activities restored`,
+      });
+      await fetchImports();
+    } catch (err) {
+      console.error("Error rolling back import:", err);
+      toast({ title: "Error", description: "Failed to roll back import", variant: "destructive" });
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/")}
+              className="gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Import History</h1>
+          </div>
+          <span className="text-sm text-muted-foreground">
+            {imports.length} {imports.length === 1 ? "import" : "imports"}
+          </span>
+        </div>
+
+        {imports.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">No imports yet.</p>
+          </div>
+        ) : (
+          <div className="rounded-lg border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                  <TableHead className="text-right">Removed</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="w-[140px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">
+                      {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className="uppercase">{entry.source_type}</Badge>
+                    </TableCell>
+                    <TableCell className="max-w-[240px] truncate">
+                      {entry.file_name}
+                      {entry.failed_at && <Badge variant="destructive" className="ml-2">Incomplete</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">{entry.inserted_count}</TableCell>
+                    <TableCell className="text-right">{entry.updated_count}</TableCell>
+                    <TableCell className="text-right">{entry.deleted_count}</TableCell>
+                    <TableCell className="text-right">{entry.skipped_count}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.rolled_back_at ? (
+                        <Badge variant="outline">Rolled back</Badge>
+                      ) : (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={rollingBack !== null}
+                              className="gap-2 text-muted-foreground hover:text-destructive"
+                            >
+                              {rollingBack === entry.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Undo2 className="h-4 w-4" />
+                              )}
+                              Roll back
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Roll Back Import</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This removes the {entry.inserted_count} activities added by "{entry.file_name}"
+                                and restores the {entry.updated_count + entry.deleted_count} it changed or removed
+                                to their previous values. Activities changed again since this import are left as they are.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleRollback(entry)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Roll back
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/hooks/useSettings";
+import { DEFAULT_SETTINGS, UserSettings, WEEKDAYS } from "@/lib/settings";
+import { DATE_PRESETS, isPresetKey } from "@/lib/datePresets";
+import { isDistanceUnit, isElevationUnit } from "@/lib/units";
+import { supportedTimeZones } from "@/lib/parseDates";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+// Select items can't have an empty value, so "no timezone" gets its own key
+const BROWSER_TIMEZONE = "browser";
+
+// Matches the CHECK constraints on user_settings
+const MAX_HR_RANGE = [100, 250];
+const RESTING_HR_RANGE = [20, 120];
+
+interface SettingsForm {
+  displayName: string;
+  distanceUnit: string;
+  elevationUnit: string;
+  weekStartDay: string;
+  timezone: string;
+  defaultPreset: string;
+  maxHeartRate: string;
+  restingHeartRate: string;
+}
+
+function toForm(settings: UserSettings): SettingsForm {
+  return {
+    displayName: settings.displayName ?? "",
+    distanceUnit: settings.distanceUnit,
+    elevationUnit: settings.elevationUnit,
+    weekStartDay: String(settings.weekStartDay),
+    timezone: settings.timezone ?? BROWSER_TIMEZONE,
+    defaultPreset: settings.defaultPreset,
+    maxHeartRate: settings.maxHeartRate?.toString() ?? "",
+    restingHeartRate: settings.restingHeartRate?.toString() ?? "",
+  };
+}
+
+function parseHeartRate(value: string, [min, max]: number[]): number | null | undefined {
+  if (value.trim() === "") return null;
+  const rate = Number(value);
+  return Number.isInteger(rate) && rate >= min && rate <= max ? rate : undefined;
+}
+
+// Turns the form back into settings, or an error message for the first bad field
+function fromForm(form: SettingsForm): UserSettings | string {
+  const maxHeartRate = parseHeartRate(form.maxHeartRate, MAX_HR_RANGE);
+  if (maxHeartRate === undefined) {
+    return `Max heart rate must be a whole number between ${MAX_HR_RANGE[0]} and ${MAX_HR_RANGE[1]}`;
+  }
+  const restingHeartRate = parseHeartRate(form.restingHeartRate, RESTING_HR_RANGE);
+  if (restingHeartRate === undefined) {
+    return `Resting heart rate must be a whole number between ${RESTING_HR_RANGE[0]} and ${RESTING_HR_RANGE[1]}`;
+  }
+  if (maxHeartRate !== null && restingHeartRate !== null && restingHeartRate >= maxHeartRate) {
+    return "Resting heart rate must be below max heart rate";
+  }
+
+  return {
+    displayName: form.displayName.trim() || null,
+    distanceUnit: isDistanceUnit(form.distanceUnit) ? form.distanceUnit : DEFAULT_SETTINGS.distanceUnit,
+    elevationUnit: isElevationUnit(form.elevationUnit) ? form.elevationUnit : DEFAULT_SETTINGS.elevationUnit,
+    weekStartDay: Number(form.weekStartDay),
+    timezone: form.timezone === BROWSER_TIMEZONE ? null : form.timezone,
+    defaultPreset: isPresetKey(form.defaultPreset) ? form.defaultPreset : DEFAULT_SETTINGS.defaultPreset,
+    maxHeartRate,
+    restingHeartRate,
+  };
+}
+
+const Settings = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { settings, loading: settingsLoading, updateSettings } = useSettings();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [form, setForm] = useState<SettingsForm>(() => toForm(settings));
+  const [saving, setSaving] = useState(false);
+
+  const timeZones = useMemo(() => supportedTimeZones(), []);
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  // Refill the form once the saved settings have loaded
+  useEffect(() => {
+    if (!settingsLoading) setForm(toForm(settings));
+  }, [settingsLoading, settings]);
+
+  const setField = (field: keyof SettingsForm) => (value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const next = fromForm(form);
+    if (typeof next === "string") {
+      toast({ title: "Check your settings", description: next, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await updateSettings(next);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: "Failed to save settings", variant: "destructive" });
+    } else {
+      toast({ title: "Settings saved" });
+    }
+  };
+
+  if (authLoading || settingsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/")}
+            className="gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-2xl font-bold text-foreground">Settings</h1>
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-6">
+          <section className="rounded-lg border bg-card p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-foreground">Profile</h2>
+            <div className="space-y-2">
+              <Label htmlFor="display-name">Display name</Label>
+              <Input
+                id="display-name"
+                placeholder={user.email}
+                value={form.displayName}
+                onChange={(e) => setField("displayName")(e.target.value)}
+                maxLength={80}
+              />
+            </div>
+          </section>
+
+          <section className="rounded-lg border bg-card p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-foreground">Display</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="distance-unit">Distance</Label>
+                <Select value={form.distanceUnit} onValueChange={setField("distanceUnit")}>
+                  <SelectTrigger id="distance-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="km">Kilometres</SelectItem>
+                    <SelectItem value="mi">Miles</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="elevation-unit">Elevation</Label>
+                <Select value={form.elevationUnit} onValueChange={setField("elevationUnit")}>
+                  <SelectTrigger id="elevation-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="m">Metres</SelectItem>
+                    <SelectItem value="ft">Feet</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="week-start">Weeks start on</Label>
+                <Select value={form.weekStartDay} onValueChange={setField("weekStartDay")}>
+                  <SelectTrigger id="week-start">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="default-preset">Default dashboard range</Label>
+                <Select value={form.defaultPreset} onValueChange={setField("defaultPreset")}>
+                  <SelectTrigger id="default-preset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_PRESETS.map((preset) => (
+                      <SelectItem key={preset.key} value={preset.key}>{preset.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="timezone">Timezone</Label>
+                <Select value={form.timezone} onValueChange={setField("timezone")}>
+                  <SelectTrigger id="timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={BROWSER_TIMEZONE}>This browser's ({browserTimeZone})</SelectItem>
+                    {timeZones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Used for imported activities whose file doesn't say where they were recorded.
+                </p>
+              </div>
+            </div>
+          </section>
+
+          <section className="rounded-lg border bg-card p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-foreground">Heart rate</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="max-hr">Max heart rate (bpm)</Label>
+                <Input
+                  id="max-hr"
+                  type="number"
+                  placeholder="190"
+                  value={form.maxHeartRate}
+                  onChange={(e) => setField("maxHeartRate")(e.target.value)}
+                  min={MAX_HR_RANGE[0]}
+                  max={MAX_HR_RANGE[1]}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resting-hr">Resting heart rate (bpm)</Label>
+                <Input
+                  id="resting-hr"
+                  type="number"
+                  placeholder="50"
+                  value={form.restingHeartRate}
+                  onChange={(e) => setField("restingHeartRate")(e.target.value)}
+                  min={RESTING_HR_RANGE[0]}
+                  max={RESTING_HR_RANGE[1]}
+                />
+              </div>
+            </div>
+          </section>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving} className="gap-2">
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save settings
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -1,5 +1,11 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  // Optional {z}/{x}/{y} tile URL for route maps, and the credit it requires
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+}
+
 declare module '*.csv?raw' {
   const content: string;
   export default content;
@@ -0,0 +1,5 @@
+-- Store the activity type so non-run activities can be imported
+ALTER TABLE public.activities
+  ADD COLUMN activity_type TEXT NOT NULL DEFAULT 'Run';
+
+CREATE INDEX idx_activities_user_type ON public.activities(user_id, activity_type);
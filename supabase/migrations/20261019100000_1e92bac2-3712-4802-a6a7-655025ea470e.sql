@@ -0,0 +1,25 @@
+-- Pairs of activities the user reviewed and chose to keep as separate activities
+CREATE TABLE public.duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL,
+  other_activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (activity_id, other_activity_id)
+);
+
+ALTER TABLE public.duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_duplicate_dismissals_user_id ON public.duplicate_dismissals(user_id);
@@ -0,0 +1,55 @@
+-- Each upload batch, so it can be reviewed and rolled back later
+CREATE TABLE public.imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source_type TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  inserted_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  deleted_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- What an import did to each activity, with the row as it was beforehand
+CREATE TABLE public.import_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID REFERENCES public.imports(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  strava_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  previous JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The import that last wrote each activity
+ALTER TABLE public.activities
+  ADD COLUMN import_id UUID REFERENCES public.imports(id) ON DELETE SET NULL;
+
+ALTER TABLE public.imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own imports"
+  ON public.imports FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own imports"
+  ON public.imports FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own imports"
+  ON public.imports FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own import changes"
+  ON public.import_changes FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own import changes"
+  ON public.import_changes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_imports_user_date ON public.imports(user_id, created_at);
+CREATE INDEX idx_import_changes_import_id ON public.import_changes(import_id);
+CREATE INDEX idx_activities_import_id ON public.activities(import_id);
@@ -0,0 +1,4 @@
+-- UTC offset of the timezone each activity was recorded in, so weeks are
+-- bucketed by the local day it happened. NULL for rows imported before this.
+ALTER TABLE public.activities
+  ADD COLUMN utc_offset_minutes INTEGER;
@@ -0,0 +1,24 @@
+-- Training and display preferences alongside the preferred units
+ALTER TABLE public.user_settings
+  ADD COLUMN week_start_day SMALLINT NOT NULL DEFAULT 1 CHECK (week_start_day BETWEEN 0 AND 6),
+  ADD COLUMN timezone TEXT,
+  ADD COLUMN default_preset TEXT NOT NULL DEFAULT '3m' CHECK (default_preset IN ('3m', '6m', 'ytd', '1y', 'all')),
+  ADD COLUMN max_heart_rate INTEGER CHECK (max_heart_rate BETWEEN 100 AND 250),
+  ADD COLUMN resting_heart_rate INTEGER CHECK (resting_heart_rate BETWEEN 20 AND 120),
+  ADD COLUMN display_name TEXT;
+
+-- Same access rules as activities: admins can see and manage every user's row
+DROP POLICY "Users can view their own settings" ON public.user_settings;
+DROP POLICY "Users can update their own settings" ON public.user_settings;
+
+CREATE POLICY "Users can view their own settings"
+  ON public.user_settings FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can update their own settings"
+  ON public.user_settings FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own settings"
+  ON public.user_settings FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,5 @@
+-- Activities corrected by hand: when they were last edited, and the values
+-- they had before the first edit
+ALTER TABLE public.activities
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN original_values JSONB;
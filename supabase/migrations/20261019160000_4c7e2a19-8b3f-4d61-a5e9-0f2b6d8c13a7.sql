@@ -0,0 +1,29 @@
+-- Per-point recordings from track files (time, position, elevation, heart rate,
+-- cadence, distance), packed by the app as base64 gzip of delta-encoded JSON
+CREATE TABLE public.activity_streams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  point_count INTEGER NOT NULL CHECK (point_count >= 0),
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  data TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.activity_streams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own activity streams"
+  ON public.activity_streams FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own activity streams"
+  ON public.activity_streams FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own activity streams"
+  ON public.activity_streams FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own activity streams"
+  ON public.activity_streams FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,3 @@
+-- Laps as the device recorded them (lap button or auto-lap), from TCX and FIT files
+ALTER TABLE public.activity_streams
+  ADD COLUMN laps JSONB NOT NULL DEFAULT '[]'::jsonb;
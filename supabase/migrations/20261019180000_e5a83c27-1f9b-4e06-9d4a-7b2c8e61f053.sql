@@ -0,0 +1,33 @@
+-- Each run's fastest effort over the standard distances, found in its stream.
+-- Personal records and their progression are the fastest of these over time.
+CREATE TABLE public.personal_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE NOT NULL,
+  distance_key TEXT NOT NULL CHECK (distance_key IN ('1k', '5k', '10k', 'half', 'marathon')),
+  elapsed_time INTEGER NOT NULL CHECK (elapsed_time > 0),
+  start_offset INTEGER NOT NULL DEFAULT 0,
+  achieved_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (activity_id, distance_key)
+);
+
+ALTER TABLE public.personal_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own personal records"
+  ON public.personal_records FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own personal records"
+  ON public.personal_records FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own personal records"
+  ON public.personal_records FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own personal records"
+  ON public.personal_records FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_personal_records_user_distance ON public.personal_records(user_id, distance_key, achieved_at);
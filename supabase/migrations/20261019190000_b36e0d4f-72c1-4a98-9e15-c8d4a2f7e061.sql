@@ -0,0 +1,31 @@
+-- Race results entered by hand, for races without a recorded track. The race
+-- predictor can use them alongside the best efforts found in streams.
+CREATE TABLE public.race_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  race_date DATE NOT NULL,
+  distance_meters NUMERIC NOT NULL CHECK (distance_meters > 0),
+  elapsed_time INTEGER NOT NULL CHECK (elapsed_time > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.race_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own race results"
+  ON public.race_results FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can insert their own race results"
+  ON public.race_results FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own race results"
+  ON public.race_results FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can delete their own race results"
+  ON public.race_results FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_race_results_user_date ON public.race_results(user_id, race_date);
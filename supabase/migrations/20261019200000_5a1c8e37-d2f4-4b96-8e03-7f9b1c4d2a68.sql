@@ -0,0 +1,4 @@
+-- Set when an import stopped part way through writing its changes. The
+-- changes it did write stay recorded, so it can still be rolled back.
+ALTER TABLE public.imports
+  ADD COLUMN failed_at TIMESTAMP WITH TIME ZONE;
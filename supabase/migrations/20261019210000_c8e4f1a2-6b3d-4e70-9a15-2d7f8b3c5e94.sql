@@ -0,0 +1,10 @@
+-- Both activities in a dismissed pair must belong to the user dismissing it
+DROP POLICY "Users can insert their own duplicate dismissals" ON public.duplicate_dismissals;
+
+CREATE POLICY "Users can insert their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = other_activity_id AND a.user_id = auth.uid())
+  );
@@ -0,0 +1,10 @@
+-- A stream can only be saved for one of the caller's own activities, so
+-- nobody else can take the activity's slot
+DROP POLICY "Users can insert their own activity streams" ON public.activity_streams;
+
+CREATE POLICY "Users can insert their own activity streams"
+  ON public.activity_streams FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+  );
@@ -0,0 +1,9 @@
+-- Records can only be saved for one of the caller's own activities
+DROP POLICY "Users can insert their own personal records" ON public.personal_records;
+
+CREATE POLICY "Users can insert their own personal records"
+  ON public.personal_records FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+  );
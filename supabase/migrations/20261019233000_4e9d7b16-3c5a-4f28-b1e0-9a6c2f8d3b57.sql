@@ -0,0 +1,6 @@
+-- Cadence and power summaries from GPX, TCX and FIT files. CSV imports
+-- have neither, so both stay null for them.
+ALTER TABLE public.activities
+  ADD COLUMN avg_cadence INTEGER,
+  ADD COLUMN max_cadence INTEGER,
+  ADD COLUMN avg_power INTEGER;
@@ -0,0 +1,14 @@
+-- A stream can't be moved onto someone else's activity either, where it
+-- would take that activity's slot
+DROP POLICY "Users can update their own activity streams" ON public.activity_streams;
+
+CREATE POLICY "Users can update their own activity streams"
+  ON public.activity_streams FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (
+    (
+      auth.uid() = user_id
+      AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    )
+    OR public.has_role(auth.uid(), 'admin')
+  );
@@ -0,0 +1,13 @@
+-- Nor can a record be moved onto someone else's activity
+DROP POLICY "Users can update their own personal records" ON public.personal_records;
+
+CREATE POLICY "Users can update their own personal records"
+  ON public.personal_records FOR UPDATE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (
+    (
+      auth.uid() = user_id
+      AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    )
+    OR public.has_role(auth.uid(), 'admin')
+  );